@@ -0,0 +1,29 @@
+import esbuild from "esbuild";
+import process from "process";
+import { readdirSync } from "fs";
+import { spawnSync } from "child_process";
+
+// Bundle each test with a stand-in for the "obsidian" module, then run
+// the bundles with Node's test runner.
+const tests = readdirSync("tests")
+  .filter((name) => name.endsWith(".test.ts"))
+  .map((name) => `tests/${name}`);
+
+await esbuild.build({
+  entryPoints: tests,
+  bundle: true,
+  platform: "node",
+  format: "cjs",
+  target: "node18",
+  alias: { obsidian: "./tests/obsidian.ts" },
+  logLevel: "warning",
+  outdir: ".test-build",
+});
+
+const outputs = tests.map((test) =>
+  test.replace(/^tests\//, ".test-build/").replace(/\.ts$/, ".js")
+);
+const { status } = spawnSync(process.execPath, ["--test", ...outputs], {
+  stdio: "inherit",
+});
+process.exit(status ?? 1);
@@ -1,15 +1,40 @@
 import {
 	App,
+	Component,
 	Editor,
+	EditorChange,
+	EditorPosition,
+	EditorRange,
+	Events,
+	FuzzyMatch,
+	FuzzySuggestModal,
+	HeadingCache,
+	HoverParent,
+	HoverPopover,
 	ItemView,
+	Keymap,
+	MarkdownRenderChild,
+	MarkdownFileInfo,
+	MarkdownRenderer,
 	MarkdownView,
 	Menu,
+	Modal,
+	Notice,
+	PaneType,
 	Plugin,
 	PluginSettingTab,
 	Setting,
 	TFile,
+	TFolder,
 	WorkspaceLeaf,
 	debounce,
+	getAllTags,
+	moment,
+	normalizePath,
+	prepareFuzzySearch,
+	renderMatches,
+	SearchMatches,
+	SearchResult,
 	setIcon,
 } from "obsidian";
 
@@ -17,11 +42,24 @@ import {
 
 const VIEW_TYPE = "highlights-sidebar-view";
 const ICON_NAME = "highlighter";
+/** Workspace event fired with `(file, items)`; see `checkAnnotations` */
+const ANNOTATIONS_CHANGED_EVENT = "highlights-sidebar:annotations-changed";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-type ItemType = "highlight" | "comment" | "footnote";
+type BuiltInType = "highlight" | "comment" | "footnote" | "suggestion";
+/** The `id` of a user-defined `CustomType` */
+type CustomTypeId = `custom:${string}`;
+type ItemType = BuiltInType | CustomTypeId;
 type SortOrder = "line-asc" | "line-desc" | "a-z" | "z-a";
+/** "note" shows the active note, "vault" scans every markdown file */
+type ViewMode = "note" | "vault";
+/** How the note view groups its items */
+type GroupBy = "type" | "color" | "heading";
+/** How much of the surrounding text item rows show */
+type ContextMode = "off" | "characters" | "sentences";
+/** Markup written by the highlight commands when no color is chosen */
+type HighlightSyntax = "equals" | "mark";
 
 interface ParsedItem {
 	type: ItemType;
@@ -30,8 +68,148 @@ interface ParsedItem {
 	line: number;
 	/** character offset within the line */
 	ch: number;
+	/** 0-based line on which the match ends (same as `line` unless it spans lines) */
+	endLine: number;
+	/** character offset within `endLine` just past the end of the match */
+	endCh: number;
 	/** length of the *full* match (including delimiters) so we can select it */
 	matchLength: number;
+	/** the full match as written, checked against the editor before rewriting */
+	source: string;
+	/** `<mark>` only: CSS background color from the `style` attribute */
+	color?: string;
+	/** `<mark>` only: value of the `class` attribute */
+	colorClass?: string;
+	/** CriticMarkup suggestions only */
+	suggestion?: Suggestion;
+	/** footnotes only: `[^id]: …` definition, `^[…]` inline note, or a bare `[^id]` reference */
+	footnoteKind?: FootnoteKind;
+	/** footnotes only: the `id` of `[^id]` */
+	footnoteId?: string;
+	/** footnote definitions only: every `[^id]` in the body pointing at it */
+	references?: SourceRange[];
+	/** footnotes only: a definition nobody references, or a reference with no definition */
+	footnoteProblem?: "orphan" | "dangling";
+	/** comments only: the review header, which is left out of `text` */
+	thread?: CommentMeta;
+	/** `#tags` in the annotation or right after it on its line, as written */
+	tags?: string[];
+}
+
+type FootnoteKind = "definition" | "inline" | "reference";
+
+type SuggestionKind =
+	| "addition"
+	| "deletion"
+	| "substitution"
+	| "highlight"
+	| "comment";
+
+/** Review header of a comment; see `parseCommentMeta` */
+interface CommentMeta {
+	id: string;
+	author?: string;
+	/** "YYYY-MM-DD" or "YYYY-MM-DD HH:mm", as written */
+	date?: string;
+	/** id of the comment this one answers */
+	replyTo?: string;
+	/** set on the first comment of a thread to resolve all of it */
+	resolved: boolean;
+	/** the header as written, with the space after it */
+	header?: string;
+}
+
+/** Spaced-repetition (SM-2) state of a highlight in review mode */
+interface ReviewCard {
+	/** easiness factor, never below 1.3 */
+	ease: number;
+	/** days between the last review and the next */
+	interval: number;
+	/** successful reviews in a row */
+	repetitions: number;
+	/** "YYYY-MM-DD" of the next review */
+	due: string;
+}
+
+/** A CriticMarkup edit and what its range becomes when accepted or rejected */
+interface Suggestion {
+	kind: SuggestionKind;
+	accepted: string;
+	rejected: string;
+}
+
+/** The part of a `ParsedItem` needed to locate it in the editor */
+type SourceRange = Pick<ParsedItem, "line" | "ch" | "endLine" | "endCh">;
+
+/** Maps a highlight color (CSS value or mark class) to a named category */
+interface ColorCategory {
+	color: string;
+	name: string;
+}
+
+/** Which annotations `getVaultAnnotations` returns; every field is optional */
+interface AnnotationFilter {
+	/** only notes in this folder or its subfolders */
+	folder?: string;
+	/** only notes with this tag or one nested under it, e.g. `#book` */
+	tag?: string;
+	types?: ItemType[];
+	/** a search box query, e.g. `type:comment -draft` */
+	query?: string;
+	/** order of each note's items (default: top to bottom) */
+	sort?: SortOrder;
+}
+
+/** A query kept in the search bar's saved-searches menu */
+interface SavedSearch {
+	name: string;
+	query: string;
+}
+
+type ExportFormat = "markdown" | "csv" | "json";
+/** What to do when the export file already exists */
+type ExportConflict = "overwrite" | "append" | "new-file" | "update";
+/** Sections of an export: one per annotation type or per heading */
+type ExportGroupBy = "type" | "heading";
+
+/** Where and how an export is written; defaults come from settings */
+interface ExportOptions {
+	format: ExportFormat;
+	/** vault folder for the export; empty means next to the source note */
+	folder: string;
+	/** file name without extension; supports {{note}} and {{date}} */
+	filename: string;
+	conflict: ExportConflict;
+	/** add `^block-id`s to the source note and link items with `[[Note#^id]]` */
+	blockLinks: boolean;
+	groupBy: ExportGroupBy;
+}
+
+/** Markdown export layout; see `renderTemplate` for placeholders */
+interface ExportTemplates {
+	header: string;
+	section: string;
+	item: string;
+	footer: string;
+}
+
+/** A user-defined annotation type, matched with its own regex */
+interface CustomType {
+	id: CustomTypeId;
+	name: string;
+	icon: string;
+	/** regex source; capture group 1 (or the whole match) becomes the item text */
+	pattern: string;
+	/** accent color for rows and the section header */
+	color: string;
+	visible: boolean;
+}
+
+interface SectionMeta {
+	type: ItemType;
+	label: string;
+	icon: string;
+	color?: string;
 }
 
 interface HighlightsSidebarSettings {
@@ -39,26 +217,96 @@ interface HighlightsSidebarSettings {
 	showHighlights: boolean;
 	showComments: boolean;
 	showFootnotes: boolean;
+	showSuggestions: boolean;
 	defaultSort: SortOrder;
+	viewMode: ViewMode;
+	groupBy: GroupBy;
+	followCursor: boolean;
+	contextMode: ContextMode;
+	/** characters of context on each side, in "characters" mode */
+	contextChars: number;
+	/** sentences of context (including the item's own), in "sentences" mode */
+	contextSentences: number;
+	hoverPreview: boolean;
+	/** render row text as Markdown instead of plain text */
+	renderMarkdown: boolean;
+	highlightSyntax: HighlightSyntax;
+	/** written into new comments; when empty, new comments have no header */
+	commentAuthor: string;
+	hideResolved: boolean;
+	/** never-reviewed highlights added to each review session */
+	reviewNewLimit: number;
+	/** add a `^block-id` to a highlight's block when it is first rated */
+	reviewBlockIds: boolean;
+	/** review cards by note path, then by `getReviewKeys` key */
+	reviewSchedule: Record<string, Record<string, ReviewCard>>;
+	/** vault folder for digest notes; empty for the vault root */
+	digestFolder: string;
+	/** create a digest on the first start of each day */
+	digestAuto: boolean;
+	/** "YYYY-MM-DD" of the last digest */
+	digestLastRun: string;
+	colorCategories: ColorCategory[];
+	savedSearches: SavedSearch[];
+	customTypes: CustomType[];
+	exportOptions: ExportOptions;
+	exportTemplates: ExportTemplates;
 	sectionsCollapsed: Record<ItemType, boolean>;
 	sectionSorts: Record<ItemType, SortOrder>;
 }
 
-const DEFAULT_SETTINGS: HighlightsSidebarSettings = {
+export const DEFAULT_SETTINGS: HighlightsSidebarSettings = {
 	fontSize: 13,
 	showHighlights: true,
 	showComments: true,
 	showFootnotes: true,
+	showSuggestions: true,
 	defaultSort: "line-asc",
+	viewMode: "note",
+	groupBy: "type",
+	followCursor: false,
+	contextMode: "off",
+	contextChars: 60,
+	contextSentences: 1,
+	hoverPreview: true,
+	renderMarkdown: false,
+	highlightSyntax: "equals",
+	commentAuthor: "",
+	hideResolved: false,
+	reviewNewLimit: 20,
+	reviewBlockIds: false,
+	reviewSchedule: {},
+	digestFolder: "Highlights digests",
+	digestAuto: false,
+	digestLastRun: "",
+	colorCategories: [],
+	savedSearches: [],
+	customTypes: [],
+	exportOptions: {
+		format: "markdown",
+		folder: "",
+		filename: "{{note}} - Annotations",
+		conflict: "overwrite",
+		blockLinks: false,
+		groupBy: "type",
+	},
+	exportTemplates: {
+		header: "# Annotations from [[{{note}}]]\n\n> Exported on {{date}}\n",
+		section: "## {{section}}\n",
+		item: "- {{markup}} *({{location}})*{{details}}",
+		footer: "---\n*Source: [[{{note}}]]*",
+	},
 	sectionsCollapsed: {
 		highlight: false,
 		comment: false,
 		footnote: false,
+		suggestion: false,
 	},
 	sectionSorts: {
 		highlight: "line-asc",
 		comment: "line-asc",
 		footnote: "line-asc",
+		suggestion: "line-asc",
 	},
 };
 
@@ -71,72 +319,988 @@ const SORT_LABELS: Record<SortOrder, string> = {
 
 const SORT_CYCLE: SortOrder[] = ["line-asc", "line-desc", "a-z", "z-a"];
 
+const BUILT_IN_SECTIONS: SectionMeta[] = [
+	{ type: "highlight", label: "Highlights", icon: "highlighter" },
+	{ type: "comment", label: "Comments", icon: "message-square" },
+	{ type: "footnote", label: "Footnotes", icon: "footnote" },
+	{ type: "suggestion", label: "Suggestions", icon: "file-diff" },
+];
+
+/** Built-in sections followed by the user's custom types, in settings order */
+function getSectionMeta(settings: HighlightsSidebarSettings): SectionMeta[] {
+	return [
+		...BUILT_IN_SECTIONS,
+		...settings.customTypes.map((custom) => ({
+			type: custom.id,
+			label: custom.name || "Untitled type",
+			icon: custom.icon || "tag",
+			color: custom.color,
+		})),
+	];
+}
+
 // ─── Parser ──────────────────────────────────────────────────────────────────
 
-function parseContent(content: string): ParsedItem[] {
-	const items: ParsedItem[] = [];
+/** Replace `[from, to)` ranges with spaces, keeping line breaks */
+function blankRanges(text: string, ranges: [number, number][]): string {
+	if (ranges.length === 0) return text;
+	const chars = text.split("");
+	for (const [from, to] of ranges) {
+		for (let i = from; i < to; i++) {
+			if (chars[i] !== "\n") chars[i] = " ";
+		}
+	}
+	return chars.join("");
+}
+
+/** Start offset of every line in `content`, for offset → position lookups */
+function buildLineStarts(content: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < content.length; i++) {
+		if (content.charCodeAt(i) === 10) starts.push(i + 1);
+	}
+	return starts;
+}
+
+function offsetToPosition(lineStarts: number[], offset: number): EditorPosition {
+	// Binary search for the last line starting at or before `offset`
+	let lo = 0;
+	let hi = lineStarts.length - 1;
+	while (lo < hi) {
+		const mid = (lo + hi + 1) >> 1;
+		if (lineStarts[mid] <= offset) {
+			lo = mid;
+		} else {
+			hi = mid - 1;
+		}
+	}
+	return { line: lo, ch: offset - lineStarts[lo] };
+}
+
+interface MaskedContent {
+	text: string;
+	/** Masked spans (offsets) that cross a line break */
+	multiLine: [number, number][];
+}
+
+/**
+ * Blank out the parts of a note where annotation syntax is not live —
+ * YAML frontmatter, fenced code, inline code spans, `$$` math and
+ * backslash escapes — by replacing them with spaces. Line breaks are kept,
+ * so offsets into the masked text are offsets into `content` as well.
+ */
+function maskInactiveRegions(content: string): MaskedContent {
+	const chars = content.split("");
+	const multiLine: [number, number][] = [];
+	const blank = (from: number, to: number) => {
+		for (let i = from; i < to; i++) {
+			if (chars[i] !== "\n") chars[i] = " ";
+		}
+		if (content.lastIndexOf("\n", to - 1) >= from) multiLine.push([from, to]);
+	};
+
 	const lines = content.split("\n");
+	let lineIdx = 0;
+	let offset = 0;
+
+	// Frontmatter: a `---` first line up to the next `---` or `...` line
+	if (lines[0].trimEnd() === "---") {
+		let end = lines[0].length + 1;
+		for (let i = 1; i < lines.length; i++) {
+			if (/^(---|\.\.\.)\s*$/.test(lines[i])) {
+				blank(0, end + lines[i].length);
+				lineIdx = i + 1;
+				offset = end + lines[i].length + 1;
+				break;
+			}
+			end += lines[i].length + 1;
+		}
+	}
 
-	for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
+	// Fenced code blocks (``` or ~~~, also inside blockquotes and lists).
+	// An unclosed fence runs to the end of the note, as in CommonMark.
+	let fence: { char: string; length: number; start: number } | null = null;
+	for (; lineIdx < lines.length; lineIdx++) {
 		const line = lines[lineIdx];
+		const m = line.match(/^[ \t>]*(`{3,}|~{3,})/);
+		if (fence) {
+			if (
+				m &&
+				m[1][0] === fence.char &&
+				m[1].length >= fence.length &&
+				line.slice(m[0].length).trim() === ""
+			) {
+				blank(fence.start, offset + line.length);
+				fence = null;
+			}
+		} else if (m) {
+			fence = { char: m[1][0], length: m[1].length, start: offset };
+		}
+		offset += line.length + 1;
+	}
+	if (fence) blank(fence.start, content.length);
+
+	// Inline code: a run of N backticks closed by a run of exactly N
+	// backticks within the same paragraph
+	let text = chars.join("");
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] !== "`" || (i > 0 && text[i - 1] === "\\")) continue;
+		let n = 1;
+		while (text[i + n] === "`") n++;
+
+		let close = -1;
+		let j = i + n;
+		while (j < text.length) {
+			if (text[j] === "`") {
+				let k = 1;
+				while (text[j + k] === "`") k++;
+				if (k === n) {
+					close = j;
+					break;
+				}
+				j += k;
+				continue;
+			}
+			if (text[j] === "\n" && /^[ \t]*(\n|$)/.test(text.slice(j + 1, j + 80))) {
+				break;
+			}
+			j++;
+		}
 
-		// ==highlight== (Obsidian native)
-		for (const m of line.matchAll(/==(.*?)==/g)) {
-			items.push({
-				type: "highlight",
-				text: m[1],
-				line: lineIdx,
-				ch: m.index!,
-				matchLength: m[0].length,
-			});
+		if (close >= 0) {
+			blank(i, close + n);
+			i = close + n - 1;
+		} else {
+			i += n - 1;
 		}
+	}
 
-		// <mark>highlight</mark> (HTML, with optional style/class attributes)
-		for (const m of line.matchAll(/<mark[^>]*>(.*?)<\/mark>/gi)) {
-			items.push({
-				type: "highlight",
-				text: m[1],
-				line: lineIdx,
-				ch: m.index!,
-				matchLength: m[0].length,
-			});
+	// Backslash escapes such as \== or \%%
+	text = chars.join("");
+	for (const m of text.matchAll(/\\[!-\/:-@\[-`{-~]/g)) {
+		blank(m.index!, m.index! + 2);
+	}
+
+	// $$ math $$ (inline or as a block)
+	text = chars.join("");
+	for (const m of text.matchAll(/\$\$[\s\S]*?\$\$/g)) {
+		blank(m.index!, m.index! + m[0].length);
+	}
+
+	return { text: chars.join(""), multiLine };
+}
+
+function isCustomType(type: ItemType): type is CustomTypeId {
+	return type.startsWith("custom:");
+}
+
+/** Custom type ids were `custom-…` before they got their `custom:` prefix */
+function migrateCustomTypeId(id: string): CustomTypeId {
+	return id.replace(/^custom-/, "custom:") as CustomTypeId;
+}
+
+/** A per-type record with any old custom type ids renamed */
+function migrateTypeKeys<T>(
+	record: Record<string, T> = {}
+): Record<string, T> {
+	const migrated: Record<string, T> = {};
+	for (const key of Object.keys(record)) {
+		migrated[migrateCustomTypeId(key)] = record[key];
+	}
+	return migrated;
+}
+
+/** Compile a custom type's pattern, or return null if it is not a valid regex */
+function compileCustomPattern(pattern: string): RegExp | null {
+	if (pattern.trim().length === 0) return null;
+	try {
+		return new RegExp(pattern, "gm");
+	} catch {
+		return null;
+	}
+}
+
+export function parseContent(
+	content: string,
+	customTypes: CustomType[] = []
+): ParsedItem[] {
+	return linkFootnotes(parseRaw(content, customTypes).items);
+}
+
+/** Items of one parse, before footnote references are linked */
+interface RawParse {
+	items: ParsedItem[];
+	/** Line ranges (inclusive) of multi-line items and masked regions */
+	spans: [number, number][];
+}
+
+function parseRaw(content: string, customTypes: CustomType[]): RawParse {
+	const items: ParsedItem[] = [];
+	const lineStarts = buildLineStarts(content);
+	const masking = maskInactiveRegions(content);
+	let masked = masking.text;
+
+	// Patterns are matched against the masked text. Each one is a plain
+	// concatenation of capture groups, so the source offset of a group is
+	// the sum of the group lengths before it and its text can be read back
+	// from `content` (masked spans would otherwise come out as spaces).
+	const push = (
+		m: RegExpMatchArray,
+		type: ItemType,
+		text: string,
+		extra?: Partial<ParsedItem>
+	): void => {
+		const start = offsetToPosition(lineStarts, m.index!);
+		const end = offsetToPosition(lineStarts, m.index! + m[0].length);
+		items.push({
+			type,
+			text,
+			line: start.line,
+			ch: start.ch,
+			endLine: end.line,
+			endCh: end.ch,
+			matchLength: m[0].length,
+			source: content.substr(m.index!, m[0].length),
+			...extra,
+		});
+	};
+
+	const collect = (
+		regex: RegExp,
+		type: ItemType,
+		getText: (groups: string[]) => string,
+		extra?: (groups: string[]) => Partial<ParsedItem>
+	): [number, number][] => {
+		const ranges: [number, number][] = [];
+		for (const m of masked.matchAll(regex)) {
+			const groups: string[] = [];
+			let groupStart = m.index!;
+			for (let g = 1; g < m.length; g++) {
+				const length = (m[g] ?? "").length;
+				groups.push(content.substr(groupStart, length));
+				groupStart += length;
+			}
+			push(m, type, getText(groups), extra?.(groups));
+			ranges.push([m.index!, m.index! + m[0].length]);
+		}
+		return ranges;
+	};
+
+	// CriticMarkup goes first: each pattern blanks what it matched, so that
+	// {==text==} is not also read as a highlight or a {>>comment<<} twice
+	const critic = (
+		regex: RegExp,
+		build: (groups: string[]) => Suggestion & { text: string }
+	): void => {
+		const matched = collect(
+			regex,
+			"suggestion",
+			(g) => build(g).text,
+			(g) => {
+				const { kind, accepted, rejected } = build(g);
+				return { suggestion: { kind, accepted, rejected } };
+			}
+		);
+		masked = blankRanges(masked, matched);
+	};
+
+	critic(/(\{\+\+)([\s\S]*?)(\+\+\})/g, (g) => ({
+		kind: "addition",
+		text: g[1],
+		accepted: g[1],
+		rejected: "",
+	}));
+	critic(/(\{--)([\s\S]*?)(--\})/g, (g) => ({
+		kind: "deletion",
+		text: g[1],
+		accepted: "",
+		rejected: g[1],
+	}));
+	critic(/(\{~~)([\s\S]*?)(~>)([\s\S]*?)(~~\})/g, (g) => ({
+		kind: "substitution",
+		text: `${g[1]} → ${g[3]}`,
+		accepted: g[3],
+		rejected: g[1],
+	}));
+	critic(
+		/(\{==)([\s\S]*?)(==\})((?:[ \t]*\{>>[\s\S]*?<<\})?)/g,
+		(g) => {
+			const comment = g[3].match(/\{>>([\s\S]*?)<<\}/)?.[1].trim();
+			return {
+				kind: "highlight",
+				text: comment ? `${g[1]} — ${comment}` : g[1],
+				accepted: g[1],
+				rejected: g[1],
+			};
 		}
+	);
+	critic(/(\{>>)([\s\S]*?)(<<\})/g, (g) => ({
+		kind: "comment",
+		text: g[1].trim(),
+		accepted: "",
+		rejected: "",
+	}));
+
+	// ==highlight== (Obsidian native, never crosses a line break). The
+	// text can't start or end with a space, so the `==` left over from an
+	// escaped `\==` doesn't pair up with the next highlight.
+	collect(/(==)(\S(?:.*?\S)??)(==)/g, "highlight", (g) => g[1]);
+
+	// <mark>highlight</mark> (HTML, with optional style/class attributes)
+	collect(
+		/(<mark[^>]*>)([\s\S]*?)(<\/mark>)/gi,
+		"highlight",
+		(g) => g[1],
+		(g) => parseMarkAttributes(g[0])
+	);
 
-		// %%comment%% (Obsidian native – single-line only here)
-		for (const m of line.matchAll(/%%(.*?)%%/g)) {
-			items.push({
-				type: "comment",
-				text: m[1].trim(),
-				line: lineIdx,
-				ch: m.index!,
-				matchLength: m[0].length,
-			});
+	// %%comment%% (Obsidian native, may span several lines)
+	collect(/(%%)([\s\S]*?)(%%)/g, "comment", (g) => g[1].trim());
+
+	// <!-- HTML comment --> (may span several lines)
+	collect(/(<!--)([\s\S]*?)(-->)/g, "comment", (g) => g[1].trim());
+
+	// [^footnoteId]: definition line
+	collect(
+		/(\[\^)([^\]]+)(\]:[ \t]*)(.*)/g,
+		"footnote",
+		(g) => `[^${g[1]}]: ${g[3]}`,
+		(g) => ({ footnoteKind: "definition", footnoteId: g[1] })
+	);
+
+	// ^[inline footnote] (may contain [brackets] and [[wikilinks]])
+	collect(
+		/(\^\[)((?:[^\[\]\n]|\[\[[^\]\n]*\]\]|\[[^\[\]\n]*\])*)(\])/g,
+		"footnote",
+		(g) => `^[${g[1].trim()}]`,
+		() => ({ footnoteKind: "inline" })
+	);
+
+	// [^footnoteId] references in the body, linked to their definitions below
+	collect(
+		/(\[\^)([^\]\s]+)(\])(?!:)/g,
+		"footnote",
+		(g) => `[^${g[1]}]`,
+		(g) => ({ footnoteKind: "reference", footnoteId: g[1] })
+	);
+
+	// User-defined types. Their group offsets are unknown, so the text comes
+	// from the masked match (any code span inside it reads as blanks).
+	for (const custom of customTypes) {
+		const regex = compileCustomPattern(custom.pattern);
+		if (!regex) continue;
+		for (const m of masked.matchAll(regex)) {
+			if (m[0].length === 0) continue;
+			push(m, custom.id, (m[1] ?? m[0]).trim());
 		}
+	}
 
-		// <!-- HTML comment --> (single-line)
-		for (const m of line.matchAll(/<!--(.*?)-->/g)) {
-			items.push({
-				type: "comment",
-				text: m[1].trim(),
-				line: lineIdx,
-				ch: m.index!,
-				matchLength: m[0].length,
-			});
+	// Review comments keep their header out of the text
+	for (const item of items) {
+		if (item.type !== "comment") continue;
+		const review = parseCommentMeta(item.text);
+		if (!review) continue;
+		item.text = review.text;
+		item.thread = review.meta;
+	}
+
+	// #tags inside an annotation, or following it on the same line. The
+	// rest of the line is read from the masked text, so tags in code
+	// after the annotation don't count.
+	for (const item of items) {
+		const end = lineStarts[item.endLine] + item.endCh;
+		const lineEnd = masked.indexOf("\n", end);
+		const rest = masked.slice(end, lineEnd < 0 ? undefined : lineEnd);
+		const trailing = rest.match(TRAILING_TAGS)?.[0] ?? "";
+		const tags = [
+			...new Set([...extractTags(item.text), ...extractTags(trailing)]),
+		];
+		if (tags.length > 0) item.tags = tags;
+	}
+
+	// Skip the markers of update-mode exports (see EXPORT_START_MARKER)
+	const visible = items.filter((item) => !isExportMarker(item));
+
+	const spans: [number, number][] = masking.multiLine.map(([from, to]) => [
+		offsetToPosition(lineStarts, from).line,
+		offsetToPosition(lineStarts, to).line,
+	]);
+	for (const item of items) {
+		if (item.endLine > item.line) spans.push([item.line, item.endLine]);
+	}
+
+	return { items: visible, spans };
+}
+
+/** An Obsidian tag: letters, digits, `_`, `-` and `/`, not only digits */
+const TAG_REGEX =
+	/(?<![\p{L}\p{N}_&#])#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+/** Tags separated only by spaces from the end of an annotation */
+const TRAILING_TAGS =
+	/^(?:[ \t]*#[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*(?![^\s]))+/u;
+
+function extractTags(text: string): string[] {
+	return [...text.matchAll(TAG_REGEX)].map((m) => `#${m[1]}`);
+}
+
+/** Tags of `items` by their lowercased form, as first written, sorted */
+function collectTags(items: ParsedItem[]): Map<string, string> {
+	const tags = new Map<string, string>();
+	for (const item of items) {
+		for (const tag of item.tags ?? []) {
+			const key = tag.toLowerCase();
+			if (!tags.has(key)) tags.set(key, tag);
+		}
+	}
+	return new Map([...tags].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** Whether `tags` hold `tag` (with its `#`) or a tag nested under it */
+function hasTag(tags: string[] | undefined, tag: string): boolean {
+	const wanted = tag.toLowerCase();
+	return (tags ?? []).some((t) => {
+		const lower = t.toLowerCase();
+		return lower === wanted || lower.startsWith(`${wanted}/`);
+	});
+}
+
+/** Pull the highlight color out of a `<mark style="…" class="…">` tag */
+function parseMarkAttributes(tag: string): Partial<ParsedItem> {
+	const attrs: Partial<ParsedItem> = {};
+	const style = tag.match(/style\s*=\s*["']([^"']*)["']/i);
+	const background = style?.[1].match(
+		/background(?:-color)?\s*:\s*([^;]+)/i
+	);
+	if (background) attrs.color = background[1].trim();
+	const cls = tag.match(/class\s*=\s*["']([^"']*)["']/i);
+	if (cls && cls[1].trim()) attrs.colorClass = cls[1].trim();
+	return attrs;
+}
+
+/**
+ * Attach each `[^id]` reference to the definition(s) it points at and flag
+ * definitions that are never referenced. References are folded into their
+ * definitions; only dangling ones (no definition) remain as items.
+ */
+function linkFootnotes(rawItems: ParsedItem[]): ParsedItem[] {
+	// Definitions are copied so raw items can be linked again after an
+	// incremental parse
+	const items = rawItems.map(
+		(item): ParsedItem =>
+			item.footnoteKind === "definition"
+				? { ...item, references: [] }
+				: item
+	);
+	const definitions = new Map<string, ParsedItem[]>();
+	for (const item of items) {
+		if (item.footnoteKind !== "definition") continue;
+		const id = item.footnoteId!;
+		definitions.set(id, [...(definitions.get(id) ?? []), item]);
+	}
+
+	const result: ParsedItem[] = [];
+	for (const item of items) {
+		if (item.footnoteKind !== "reference") {
+			result.push(item);
+			continue;
+		}
+		const defs = definitions.get(item.footnoteId!);
+		if (defs) {
+			const { line, ch, endLine, endCh } = item;
+			for (const def of defs) {
+				def.references!.push({ line, ch, endLine, endCh });
+			}
+		} else {
+			result.push({ ...item, footnoteProblem: "dangling" });
+		}
+	}
+
+	for (const defs of definitions.values()) {
+		for (const def of defs) {
+			if (def.references!.length === 0) def.footnoteProblem = "orphan";
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Delimiters of constructs that can reach past a paragraph or hide the
+ * syntax inside them. Edits near one of these are parsed from scratch.
+ */
+const UNBOUNDED_SYNTAX =
+	/%%|<!--|-->|<\/?mark|\{(\+\+|--|~~|==|>>)|(\+\+|--|~~|==)\}|<<\}|\$\$|```|~~~/i;
+
+const isBlankLine = (line: string): boolean => /^[ \t]*$/.test(line);
+
+/**
+ * Parses one note at a time. When the same note is parsed again after an
+ * edit, only the paragraphs that changed are re-scanned and the items
+ * around them are shifted; footnotes are then re-linked across the note.
+ * Anything that could change how the rest of the note reads falls back
+ * to a full parse.
+ */
+class IncrementalParser {
+	private path: string | null = null;
+	private typesKey = "";
+	private lines: string[] = [];
+	private raw: RawParse = { items: [], spans: [] };
+
+	parse(
+		path: string,
+		content: string,
+		customTypes: CustomType[]
+	): ParsedItem[] {
+		const lines = content.split("\n");
+		const typesKey = JSON.stringify(
+			customTypes.map((custom) => [custom.id, custom.pattern])
+		);
+		const patched =
+			path === this.path && typesKey === this.typesKey
+				? this.reparse(lines, customTypes)
+				: null;
+
+		this.raw = patched ?? parseRaw(content, customTypes);
+		this.path = path;
+		this.typesKey = typesKey;
+		this.lines = lines;
+		return linkFootnotes(this.raw.items);
+	}
+
+	/** Re-scan the changed paragraphs, or return null if that is not safe */
+	private reparse(lines: string[], customTypes: CustomType[]): RawParse | null {
+		const old = this.lines;
+		const shortest = Math.min(old.length, lines.length);
+		let prefix = 0;
+		while (prefix < shortest && old[prefix] === lines[prefix]) prefix++;
+		if (prefix === old.length && prefix === lines.length) return this.raw;
+		let suffix = 0;
+		while (
+			suffix < shortest - prefix &&
+			old[old.length - 1 - suffix] === lines[lines.length - 1 - suffix]
+		) {
+			suffix++;
+		}
+
+		// Widen the changed lines to whole paragraphs. Frontmatter is only
+		// recognised at the top of the note (and a `---` opening the window
+		// would read as one), so those cases parse it all.
+		let start = prefix;
+		while (start > 0 && !isBlankLine(lines[start - 1])) start--;
+		let end = lines.length - suffix;
+		while (end < lines.length && !isBlankLine(lines[end])) end++;
+		if (start === 0 || lines[start]?.trimEnd() === "---") return null;
+
+		const delta = lines.length - old.length;
+		const oldEnd = end - delta;
+		const window = lines.slice(start, end);
+		const unbounded = (line: string) => UNBOUNDED_SYNTAX.test(line);
+		if (
+			window.some(unbounded) ||
+			old.slice(start, oldEnd).some(unbounded) ||
+			this.raw.spans.some(([from, to]) => from <= oldEnd && to >= start - 1)
+		) {
+			return null;
+		}
+
+		const shift = (item: ParsedItem, by: number): ParsedItem => ({
+			...item,
+			line: item.line + by,
+			endLine: item.endLine + by,
+		});
+		const parsed = parseRaw(window.join("\n"), customTypes);
+		return {
+			items: [
+				...this.raw.items.filter((item) => item.endLine < start),
+				...parsed.items.map((item) => shift(item, start)),
+				...this.raw.items
+					.filter((item) => item.line >= oldEnd)
+					.map((item) => shift(item, delta)),
+			],
+			spans: [
+				...this.raw.spans.filter(([, to]) => to < start),
+				...parsed.spans.map(([from, to]): [number, number] => [
+					from + start,
+					to + start,
+				]),
+				...this.raw.spans
+					.filter(([from]) => from >= oldEnd)
+					.map(([from, to]): [number, number] => [
+						from + delta,
+						to + delta,
+					]),
+			],
+		};
+	}
+}
+
+// ─── Color helpers ───────────────────────────────────────────────────────────
+
+/** Key used to compare colors: the CSS value, or the mark class as a fallback */
+function getColorKey(item: ParsedItem): string | null {
+	const raw = item.color ?? item.colorClass;
+	return raw ? raw.toLowerCase().replace(/\s+/g, "") : null;
+}
+
+function getColorCategory(
+	item: ParsedItem,
+	categories: ColorCategory[]
+): string | null {
+	const key = getColorKey(item);
+	if (!key) return null;
+	const match = categories.find(
+		(c) => c.color.toLowerCase().replace(/\s+/g, "") === key
+	);
+	return match ? match.name : null;
+}
+
+/** A small `<mark>` carrying the item's style and classes, so themes color it */
+function createSwatch(
+	parent: HTMLElement,
+	item: Pick<ParsedItem, "color" | "colorClass">
+): HTMLElement {
+	const swatch = parent.createEl("mark", {
+		cls: "highlights-sidebar-swatch",
+	});
+	if (item.colorClass) {
+		swatch.addClasses(item.colorClass.split(/\s+/));
+	}
+	if (item.color) {
+		swatch.style.background = item.color;
+	}
+	return swatch;
+}
+
+// ─── Source edits ────────────────────────────────────────────────────────────
+
+/**
+ * A comment's markup with new text (and review header, which defaults to
+ * the current one), keeping its delimiters and padding
+ */
+function rewriteComment(
+	item: ParsedItem,
+	text: string,
+	meta: CommentMeta | undefined = item.thread
+): string {
+	const m = item.source.match(/^(%%|<!--)(\s*)[\s\S]*?(\s*)(%%|-->)$/);
+	if (!m) return item.source;
+	// An unchanged header is kept as written
+	let header = "";
+	if (meta) {
+		header =
+			meta === item.thread && meta.header
+				? meta.header
+				: `${formatCommentMeta(meta)} `;
+	}
+	return `${m[1]}${m[2]}${header}${text}${m[3]}${m[4]}`;
+}
+
+/**
+ * Markup highlighting `text`: `==text==`, or a `<mark>` when the settings
+ * ask for one, a color is given or the text spans lines (`==` can't).
+ * `color` is a CSS color, or else taken to be a mark class.
+ */
+function buildHighlight(
+	text: string,
+	syntax: HighlightSyntax,
+	color?: string
+): string {
+	if (color) {
+		const attribute = CSS.supports("color", color)
+			? `style="background: ${color}"`
+			: `class="${color}"`;
+		return `<mark ${attribute}>${text}</mark>`;
+	}
+	return syntax === "mark" || text.includes("\n")
+		? `<mark>${text}</mark>`
+		: `==${text}==`;
+}
+
+/** A comment holding `text`, as an HTML comment if `%%` would end it early */
+function buildComment(text: string): string {
+	return text.includes("%%") ? `<!-- ${text} -->` : `%%${text}%%`;
+}
+
+/** One more than the highest numeric footnote id among `items` */
+function nextFootnoteNumber(items: ParsedItem[]): number {
+	let highest = 0;
+	for (const item of items) {
+		if (item.footnoteId && /^\d+$/.test(item.footnoteId)) {
+			highest = Math.max(highest, Number(item.footnoteId));
+		}
+	}
+	return highest + 1;
+}
+
+// ─── Comment threads ─────────────────────────────────────────────────────────
+
+const COMMENT_META = /^\[(c\d+)((?:[ \t]+[^\s\]]+)+)[ \t]*\]\s*/;
+
+/**
+ * Split a review header off a comment's text, as in
+ * `[c2 @bob 2026-10-19 15:10 re:c1 resolved] text`. The id is `c` and a
+ * number, as `nextCommentId` writes them. After it the author, date (and
+ * time), reply-to and resolved flag are each optional, but one is needed,
+ * so comments like `[TODO] …` or `[c3]` stay plain.
+ */
+function parseCommentMeta(
+	text: string
+): { meta: CommentMeta; text: string } | null {
+	const m = text.match(COMMENT_META);
+	if (!m) return null;
+	const meta: CommentMeta = { id: m[1], resolved: false, header: m[0] };
+	for (const token of m[2].trim().split(/\s+/)) {
+		if (/^@\S+$/.test(token)) {
+			meta.author = token.slice(1);
+		} else if (/^\d{4}-\d{2}-\d{2}$/.test(token) && !meta.date) {
+			meta.date = token;
+		} else if (/^\d{1,2}:\d{2}$/.test(token) && meta.date?.length === 10) {
+			meta.date += ` ${token}`;
+		} else if (/^re:\S+$/.test(token)) {
+			meta.replyTo = token.slice(3);
+		} else if (token === "resolved") {
+			meta.resolved = true;
+		} else {
+			return null;
+		}
+	}
+	return { meta, text: text.slice(m[0].length) };
+}
+
+function formatCommentMeta(meta: CommentMeta): string {
+	const parts = [meta.id];
+	if (meta.author) parts.push(`@${meta.author}`);
+	if (meta.date) parts.push(meta.date);
+	if (meta.replyTo) parts.push(`re:${meta.replyTo}`);
+	if (meta.resolved) parts.push("resolved");
+	return `[${parts.join(" ")}]`;
+}
+
+/** A review comment with a fresh header stamped with the current time */
+function buildReviewComment(
+	text: string,
+	id: string,
+	author: string,
+	replyTo?: string
+): string {
+	const meta: CommentMeta = {
+		id,
+		author: author.replace(/\s+/g, "-") || undefined,
+		date: moment().format("YYYY-MM-DD HH:mm"),
+		replyTo,
+		resolved: false,
+	};
+	return buildComment(`${formatCommentMeta(meta)} ${text}`);
+}
+
+/** `c1`, `c2`, …: the first such id not used by a comment in `items` */
+function nextCommentId(items: ParsedItem[]): string {
+	let highest = 0;
+	for (const item of items) {
+		const m = item.thread?.id.match(/^c(\d+)$/);
+		if (m) highest = Math.max(highest, Number(m[1]));
+	}
+	return `c${highest + 1}`;
+}
+
+/** A comment and the replies to it, in document order */
+interface CommentThread {
+	root: ParsedItem;
+	replies: ParsedItem[];
+}
+
+/**
+ * Group the comments among `items` into threads. A reply to a reply joins
+ * the thread of the comment it ultimately answers; a reply whose target
+ * is missing starts a thread of its own, as does every plain comment.
+ */
+function buildThreads(items: ParsedItem[]): CommentThread[] {
+	const comments = sortItems(
+		items.filter((item) => item.type === "comment"),
+		"line-asc"
+	);
+	const byId = new Map<string, ParsedItem>();
+	for (const item of comments) {
+		if (item.thread && !byId.has(item.thread.id)) {
+			byId.set(item.thread.id, item);
+		}
+	}
+	const rootOf = (item: ParsedItem): ParsedItem => {
+		const seen = new Set<ParsedItem>();
+		let current = item;
+		while (current.thread?.replyTo && !seen.has(current)) {
+			seen.add(current);
+			const parent = byId.get(current.thread.replyTo);
+			if (!parent) break;
+			current = parent;
+		}
+		return current;
+	};
+
+	const threads = new Map<ParsedItem, CommentThread>();
+	for (const item of comments) {
+		const root = rootOf(item);
+		let thread = threads.get(root);
+		if (!thread) {
+			thread = { root, replies: [] };
+			threads.set(root, thread);
+		}
+		if (item !== root) thread.replies.push(item);
+	}
+	return [...threads.values()];
+}
+
+/** The thread holding the comment with review id `id` */
+function findThread(
+	items: ParsedItem[],
+	id: string
+): CommentThread | undefined {
+	return buildThreads(items).find((thread) =>
+		[thread.root, ...thread.replies].some((item) => item.thread?.id === id)
+	);
+}
+
+/** `items` with the replies of each thread moved under its first comment */
+function orderThreads(items: ParsedItem[]): ParsedItem[] {
+	const threads = new Map(
+		buildThreads(items).map((thread) => [thread.root, thread])
+	);
+	return items.flatMap((item) => {
+		const thread = threads.get(item);
+		if (thread) return [thread.root, ...thread.replies];
+		return item.type === "comment" ? [] : [item];
+	});
+}
+
+// ─── Block references ────────────────────────────────────────────────────────
+
+const BLOCK_ID_REGEX = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Last line of the markdown block containing `line`: headings, list items
+ * and footnote definitions are blocks of their own, paragraphs run until a
+ * blank line or the start of another block. Null when a ` ^id` can't go at
+ * the end of the block: in tables, and where the line ends inside one of
+ * the multi-line `comments` (line ranges).
+ */
+function findBlockEnd(
+	lines: string[],
+	line: number,
+	comments: [number, number][]
+): number | null {
+	const startsBlock = (text: string) =>
+		/^\s*([-*+]|\d+[.)])\s/.test(text) ||
+		/^#{1,6}\s/.test(text) ||
+		/^\[\^[^\]]+\]:/.test(text) ||
+		/^[ \t>]*(`{3,}|~{3,})/.test(text);
+	const isTableRow = (text: string) => /^\s*\|/.test(text);
+
+	if (isTableRow(lines[line])) return null;
+	if (/^#{1,6}\s/.test(lines[line])) return line;
+	let end = line;
+	while (end + 1 < lines.length) {
+		const next = lines[end + 1];
+		if (next.trim() === "" || startsBlock(next)) break;
+		if (isTableRow(next)) return null;
+		end++;
+	}
+	const inComment = comments.some(([from, to]) => from <= end && end < to);
+	return inComment ? null : end;
+}
+
+/**
+ * Work out a block id for each item: the id already at the end of its block,
+ * or a fresh one (items in blocks that can't take one get none). `inserts`
+ * maps line numbers to the ids that still have to be appended (as " ^id")
+ * to those lines.
+ */
+function assignBlockIds(
+	lines: string[],
+	items: ParsedItem[]
+): { ids: Map<ParsedItem, string>; inserts: Map<number, string> } {
+	const taken = new Set<string>();
+	for (const line of lines) {
+		const m = line.match(BLOCK_ID_REGEX);
+		if (m) taken.add(m[1]);
+	}
+
+	const comments = parseRaw(lines.join("\n"), [])
+		.items.filter((c) => c.type === "comment" && c.endLine > c.line)
+		.map((c): [number, number] => [c.line, c.endLine]);
+
+	const ids = new Map<ParsedItem, string>();
+	const inserts = new Map<number, string>();
+	for (const item of items) {
+		const end = findBlockEnd(
+			lines,
+			Math.min(item.endLine, lines.length - 1),
+			comments
+		);
+		// Items whose block can't take an id are linked to the note only
+		if (end === null) continue;
+		const existing =
+			lines[end].match(BLOCK_ID_REGEX)?.[1] ?? inserts.get(end);
+		if (existing) {
+			ids.set(item, existing);
+			continue;
 		}
+		let id: string;
+		do {
+			id = Math.random().toString(36).slice(2, 8);
+		} while (taken.has(id) || id.length < 6);
+		taken.add(id);
+		inserts.set(end, id);
+		ids.set(item, id);
+	}
+	return { ids, inserts };
+}
+
+/**
+ * Make sure every item's block in `file` carries a `^block-id`, returning
+ * the ids. Goes through an open editor when there is one (so the change is
+ * undoable and unsaved edits are respected), otherwise through the vault.
+ */
+async function ensureBlockIds(
+	app: App,
+	file: TFile,
+	items: ParsedItem[]
+): Promise<Map<ParsedItem, string>> {
+	const leaf = app.workspace
+		.getLeavesOfType("markdown")
+		.find(
+			(l) =>
+				l.view instanceof MarkdownView &&
+				l.view.file?.path === file.path
+		);
 
-		// [^footnoteId]: definition line
-		for (const m of line.matchAll(/\[\^([^\]]+)\]:\s*(.*)/g)) {
-			items.push({
-				type: "footnote",
-				text: `[^${m[1]}]: ${m[2]}`,
-				line: lineIdx,
-				ch: m.index!,
-				matchLength: m[0].length,
+	if (leaf && leaf.view instanceof MarkdownView) {
+		const editor = leaf.view.editor;
+		const { ids, inserts } = assignBlockIds(
+			editor.getValue().split("\n"),
+			items
+		);
+		if (inserts.size > 0) {
+			editor.transaction({
+				changes: [...inserts].map(([line, id]) => {
+					const end = { line, ch: editor.getLine(line).length };
+					return { from: end, to: end, text: ` ^${id}` };
+				}),
 			});
 		}
+		return ids;
 	}
 
-	return items;
+	let result = new Map<ParsedItem, string>();
+	await app.vault.process(file, (data) => {
+		const lines = data.split("\n");
+		const { ids, inserts } = assignBlockIds(lines, items);
+		for (const [line, id] of inserts) {
+			lines[line] = `${lines[line]} ^${id}`;
+		}
+		result = ids;
+		return lines.join("\n");
+	});
+	return result;
 }
 
 // ─── Sort helper ─────────────────────────────────────────────────────────────
@@ -165,422 +1329,4437 @@ function sortItems(items: ParsedItem[], order: SortOrder): ParsedItem[] {
 	}
 }
 
-// ─── Sidebar View ────────────────────────────────────────────────────────────
+/**
+ * The item whose range contains `cursor`, or else the one closest to it by
+ * line and then by column. Ties go to the item listed first.
+ */
+function findNearestItem(
+	items: ParsedItem[],
+	cursor: EditorPosition
+): ParsedItem | null {
+	let nearest: ParsedItem | null = null;
+	let nearestDistance = Infinity;
+	for (const item of items) {
+		const before =
+			cursor.line < item.line ||
+			(cursor.line === item.line && cursor.ch < item.ch);
+		const after =
+			cursor.line > item.endLine ||
+			(cursor.line === item.endLine && cursor.ch > item.endCh);
+		let lines = 0;
+		let chars = 0;
+		if (before) {
+			lines = item.line - cursor.line;
+			if (lines === 0) chars = item.ch - cursor.ch;
+		} else if (after) {
+			lines = cursor.line - item.endLine;
+			if (lines === 0) chars = cursor.ch - item.endCh;
+		}
 
-interface CachedNote {
-	path: string;
-	content: string;
-	displayName: string;
+		const distance = lines * 1e6 + chars;
+		if (distance < nearestDistance) {
+			nearest = item;
+			nearestDistance = distance;
+		}
+	}
+	return nearest;
 }
 
-class HighlightsSidebarView extends ItemView {
-	private plugin: HighlightsSidebarPlugin;
-	private searchQuery: string = "";
-	private cachedNote: CachedNote | null = null;
+// ─── Headings ────────────────────────────────────────────────────────────────
 
-	constructor(leaf: WorkspaceLeaf, plugin: HighlightsSidebarPlugin) {
-		super(leaf);
-		this.plugin = plugin;
-	}
+/** An ATX (`#`) heading of a note */
+interface NoteHeading {
+	level: number;
+	text: string;
+	line: number;
+}
 
-	getViewType(): string {
-		return VIEW_TYPE;
-	}
+/** Items under one heading, nested like the note's heading hierarchy */
+interface HeadingGroup {
+	/** null for the root, whose items come before the first heading */
+	heading: NoteHeading | null;
+	/** Heading texts from the outermost heading down */
+	path: string[];
+	items: ParsedItem[];
+	children: HeadingGroup[];
+	/** Items in this group and everything nested in it */
+	count: number;
+}
 
-	getDisplayText(): string {
-		return "Highlights & Comments";
-	}
+/** Label for items that come before the note's first heading */
+const NO_HEADING_LABEL = "Before first heading";
 
-	getIcon(): string {
-		return ICON_NAME;
+/** `#` headings outside frontmatter and code, in document order */
+function parseHeadings(content: string): NoteHeading[] {
+	const lines = content.split("\n");
+	const maskedLines = maskInactiveRegions(content).text.split("\n");
+	const headings: NoteHeading[] = [];
+	maskedLines.forEach((masked, line) => {
+		const m = masked.match(/^ {0,3}(#{1,6})(?:[ \t]|$)/);
+		if (!m) return;
+		const text = lines[line]
+			.slice(m[0].length)
+			.replace(/[ \t]+#+[ \t]*$/, "")
+			.trim();
+		headings.push({ level: m[1].length, text, line });
+	});
+	return headings;
+}
+
+/** The headings `line` falls under, outermost first */
+function getHeadingPath(headings: NoteHeading[], line: number): NoteHeading[] {
+	const path: NoteHeading[] = [];
+	for (const heading of headings) {
+		if (heading.line > line) break;
+		while (path.length > 0 && path[path.length - 1].level >= heading.level) {
+			path.pop();
+		}
+		path.push(heading);
 	}
+	return path;
+}
 
-	async onOpen(): Promise<void> {
-		this.renderContent();
+/**
+ * Nest items under the heading hierarchy. Each item goes to the last
+ * heading at or above its line; headings with no items anywhere below
+ * them are left out.
+ */
+function groupByHeading(
+	items: ParsedItem[],
+	headings: NoteHeading[]
+): HeadingGroup {
+	const root: HeadingGroup = {
+		heading: null,
+		path: [],
+		items: [],
+		children: [],
+		count: 0,
+	};
+	const nodes: HeadingGroup[] = [];
+	const stack: HeadingGroup[] = [root];
+	for (const heading of headings) {
+		while (
+			stack.length > 1 &&
+			stack[stack.length - 1].heading!.level >= heading.level
+		) {
+			stack.pop();
+		}
+		const parent = stack[stack.length - 1];
+		const node: HeadingGroup = {
+			heading,
+			path: [...parent.path, heading.text],
+			items: [],
+			children: [],
+			count: 0,
+		};
+		parent.children.push(node);
+		nodes.push(node);
+		stack.push(node);
 	}
 
-	async onClose(): Promise<void> {
-		this.contentEl.empty();
+	for (const item of sortItems(items, "line-asc")) {
+		// Binary search for the last heading at or above the item
+		let lo = 0;
+		let hi = headings.length;
+		while (lo < hi) {
+			const mid = (lo + hi) >> 1;
+			if (headings[mid].line <= item.line) {
+				lo = mid + 1;
+			} else {
+				hi = mid;
+			}
+		}
+		(lo > 0 ? nodes[lo - 1] : root).items.push(item);
 	}
 
-	// ── Rendering ──────────────────────────────────────────────────────────
+	const prune = (group: HeadingGroup): HeadingGroup => {
+		group.children = group.children.map(prune).filter((c) => c.count > 0);
+		group.count =
+			group.items.length +
+			group.children.reduce((sum, child) => sum + child.count, 0);
+		return group;
+	};
+	return prune(root);
+}
 
-	renderContent(): void {
-		const container = this.contentEl;
+// ─── Context ─────────────────────────────────────────────────────────────────
+
+/** Text shown on either side of an item */
+interface ItemContext {
+	before: string;
+	after: string;
+}
+
+/** List, quote and heading markers at the start of a line */
+const LINE_MARKERS =
+	/^[ \t]*(?:>[ \t]?|[-*+][ \t]+|\d+[.)][ \t]+|#{1,6}[ \t]+)*/;
+
+/** First and last line of the paragraph (run of non-blank lines) of `item` */
+function getParagraphRange(
+	lines: string[],
+	item: SourceRange
+): [number, number] {
+	let first = item.line;
+	while (first > 0 && !isBlankLine(lines[first - 1])) first--;
+	let last = item.endLine;
+	while (last < lines.length - 1 && !isBlankLine(lines[last + 1])) last++;
+	return [first, last];
+}
+
+/**
+ * The text around an item within its paragraph: `amount` characters on
+ * each side (cut at word boundaries), or the sentence holding the item
+ * plus `amount - 1` more on each side. Line breaks read as spaces.
+ */
+function getItemContext(
+	lines: string[],
+	item: SourceRange,
+	mode: Exclude<ContextMode, "off">,
+	amount: number
+): ItemContext {
+	const [first, last] = getParagraphRange(lines, item);
+	const strip = (line: string) => line.replace(LINE_MARKERS, "");
+	const fold = (parts: string[]) => parts.join(" ").replace(/\s+/g, " ");
+
+	const lead = lines[item.line].slice(0, item.ch);
+	let before = fold(
+		[...lines.slice(first, item.line), lead].map(strip)
+	).trimStart();
+	let after = fold([
+		lines[item.endLine].slice(item.endCh),
+		...lines.slice(item.endLine + 1, last + 1).map(strip),
+	]).trimEnd();
+
+	if (mode === "sentences") {
+		const starts = [...before.matchAll(/[.!?]+["'”’)\]]*\s+/g)].map(
+			(m) => m.index! + m[0].length
+		);
+		if (starts.length >= amount) {
+			before = before.slice(starts[starts.length - amount]);
+		}
+		const ends = [...after.matchAll(/[.!?]+["'”’)\]]*(?=\s|$)/g)].map(
+			(m) => m.index! + m[0].length
+		);
+		if (ends.length >= amount) after = after.slice(0, ends[amount - 1]);
+		return { before, after };
+	}
+
+	// Drop the partial word where the text is cut
+	if (before.length > amount) {
+		const cut = before.length - amount;
+		const tail = before.slice(cut);
+		const words = /\s/.test(before[cut - 1])
+			? tail
+			: tail.replace(/^\S*/, "");
+		before = `…${words.trimStart()}`;
+	}
+	if (after.length > amount) {
+		const head = after.slice(0, amount);
+		const words = /\s/.test(after[amount])
+			? head
+			: head.replace(/\S*$/, "");
+		after = `${words.trimEnd()}…`;
+	}
+	return { before, after };
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+type SearchField = "text" | "type" | "line" | "color" | "tag" | "author";
+
+/** One condition of a search query; see `parseSearchQuery` */
+interface SearchTerm {
+	field: SearchField;
+	/** the value, lowercased */
+	value: string;
+	negated: boolean;
+	/** text only: a quoted phrase, matched exactly */
+	exact?: boolean;
+	/** text: a global `/regex/`; tag: the tag, allowing nested tags */
+	regex?: RegExp;
+	/** text only: fuzzy matcher used when the word isn't found as is */
+	fuzzy?: (text: string) => SearchResult | null;
+	/** line only: inclusive range of 1-based lines */
+	lines?: [number, number];
+}
+
+/** Alternatives joined by OR, each matching items that match all its terms */
+interface SearchQuery {
+	groups: SearchTerm[][];
+	/** the first problem found, e.g. an invalid regex; that term is ignored */
+	error: string | null;
+}
+
+const SEARCH_FIELDS: SearchField[] = ["type", "line", "color", "tag", "author"];
+
+const SEARCH_TOKEN =
+	/(-?)(?:([a-z]+):)?(?:"([^"]*)"?|\/((?:\\.|[^\\/])+)\/([a-z]*)|(\S+))/gi;
+
+const SEARCH_HELP =
+	'Words match fuzzily, "quoted phrases" exactly. Filters: type:comment, line:>100, line:10-20, color:red, tag:#todo, author:@alice, /regex/. Prefix a term with - to exclude it; join alternatives with OR.';
+
+/** `>100`, `<=20`, `10-20` or `42` as an inclusive range of 1-based lines */
+function parseLineRange(spec: string): [number, number] | null {
+	const range = spec.match(/^(\d+)\s*-\s*(\d+)$/);
+	if (range) return [Number(range[1]), Number(range[2])];
+	const compare = spec.match(/^(>=|<=|>|<|=)?\s*(\d+)$/);
+	if (!compare) return null;
+	const n = Number(compare[2]);
+	switch (compare[1]) {
+		case ">":
+			return [n + 1, Infinity];
+		case ">=":
+			return [n, Infinity];
+		case "<":
+			return [-Infinity, n - 1];
+		case "<=":
+			return [-Infinity, n];
+		default:
+			return [n, n];
+	}
+}
+
+/**
+ * Parse the search box: words, "phrases", `/regex/flags`, `field:value`
+ * filters (see `SEARCH_FIELDS`), `-` to negate a term and `OR` between
+ * alternatives. Unknown fields are searched for as plain words.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+	const groups: SearchTerm[][] = [[]];
+	let error: string | null = null;
+
+	for (const m of input.matchAll(SEARCH_TOKEN)) {
+		const [token, minus, rawField, phrase, pattern, flags, word] = m;
+		if (!minus && !rawField && (word === "OR" || word === "|")) {
+			groups.push([]);
+			continue;
+		}
+		const negated = minus === "-";
+		const field = rawField?.toLowerCase() as SearchField | undefined;
+		const group = groups[groups.length - 1];
+
+		if (field && SEARCH_FIELDS.includes(field)) {
+			const value = (phrase ?? word ?? pattern ?? "").toLowerCase();
+			if (!value) continue;
+			const term: SearchTerm = { field, value, negated };
+			if (field === "line") {
+				const lines = parseLineRange(value);
+				if (!lines) {
+					error ??= `Invalid line filter "${value}"`;
+					continue;
+				}
+				term.lines = lines;
+			} else if (field === "tag") {
+				// `tag:todo` also matches nested tags such as #todo/later
+				term.value = value.replace(/^#/, "");
+			}
+			group.push(term);
+		} else if (!field && pattern !== undefined) {
+			// Case-insensitive unless flags are given
+			const regexFlags = `${flags.replace("g", "") || "i"}g`;
+			try {
+				const regex = new RegExp(pattern, regexFlags);
+				group.push({ field: "text", value: pattern, negated, regex });
+			} catch (e) {
+				error ??= `Invalid regex /${pattern}/${flags}`;
+			}
+		} else if (!field && phrase !== undefined) {
+			if (phrase) {
+				group.push({
+					field: "text",
+					value: phrase.toLowerCase(),
+					negated,
+					exact: true,
+				});
+			}
+		} else {
+			// A word, or `unknown:value` taken literally. Exclusions stay
+			// literal: a fuzzy `-draft` would hide anything spelling d…r…a…f…t
+			const value = token.slice(minus.length).toLowerCase();
+			group.push({
+				field: "text",
+				value,
+				negated,
+				fuzzy: negated ? undefined : prepareFuzzySearch(value),
+			});
+		}
+	}
+
+	return { groups: groups.filter((group) => group.length > 0), error };
+}
+
+/** Where a text term occurs in `text`, or null if it doesn't */
+function findTermMatches(
+	text: string,
+	term: SearchTerm
+): SearchMatches | null {
+	if (term.regex) {
+		const found = [...text.matchAll(term.regex)];
+		if (found.length === 0) return null;
+		return found
+			.filter((m) => m[0].length > 0)
+			.map((m): [number, number] => [m.index!, m.index! + m[0].length]);
+	}
+	const lower = text.toLowerCase();
+	const matches: SearchMatches = [];
+	let from = lower.indexOf(term.value);
+	while (from >= 0) {
+		matches.push([from, from + term.value.length]);
+		from = lower.indexOf(term.value, from + term.value.length);
+	}
+	if (matches.length > 0 || term.exact) {
+		return matches.length > 0 ? matches : null;
+	}
+	return term.fuzzy?.(text)?.matches ?? null;
+}
+
+function matchesSearchTerm(
+	item: ParsedItem,
+	term: SearchTerm,
+	settings: HighlightsSidebarSettings
+): boolean {
+	switch (term.field) {
+		case "type":
+			return getSectionMeta(settings).some(
+				(sec) =>
+					sec.type === item.type &&
+					(sec.type.toLowerCase() === term.value ||
+						sec.label.toLowerCase().startsWith(term.value))
+			);
+		case "line": {
+			const [min, max] = term.lines!;
+			return item.line + 1 <= max && item.endLine + 1 >= min;
+		}
+		case "color": {
+			const key = getColorKey(item);
+			const category = getColorCategory(item, settings.colorCategories);
+			return (
+				(key !== null && key.includes(term.value)) ||
+				category?.toLowerCase() === term.value
+			);
+		}
+		case "tag":
+			return hasTag(item.tags, `#${term.value}`);
+		case "author": {
+			const author = term.value.replace(/^@/, "");
+			return item.thread?.author?.toLowerCase() === author;
+		}
+		default:
+			return findTermMatches(item.text, term) !== null;
+	}
+}
+
+export function matchesSearchQuery(
+	item: ParsedItem,
+	query: SearchQuery,
+	settings: HighlightsSidebarSettings
+): boolean {
+	if (query.groups.length === 0) return true;
+	return query.groups.some((group) =>
+		group.every(
+			(term) => matchesSearchTerm(item, term, settings) !== term.negated
+		)
+	);
+}
+
+/** Sorted, non-overlapping ranges of `text` matched by the query's text terms */
+function getSearchMatches(text: string, query: SearchQuery): SearchMatches {
+	const ranges: SearchMatches = [];
+	for (const group of query.groups) {
+		for (const term of group) {
+			if (term.field !== "text" || term.negated) continue;
+			ranges.push(...(findTermMatches(text, term) ?? []));
+		}
+	}
+	ranges.sort((a, b) => a[0] - b[0]);
+	const merged: SearchMatches = [];
+	for (const [from, to] of ranges) {
+		const last = merged[merged.length - 1];
+		if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+		else merged.push([from, to]);
+	}
+	return merged;
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+/** The note an export was made from */
+interface ExportSource {
+	displayName: string;
+	path: string;
+	/** block ids per item, when exporting with block links */
+	blockIds?: Map<ParsedItem, string>;
+	/** the note's headings, for heading sections and {{heading}} */
+	headings?: NoteHeading[];
+}
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+	markdown: "md",
+	csv: "csv",
+	json: "json",
+};
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+	markdown: "Markdown",
+	csv: "CSV",
+	json: "JSON",
+};
+
+const EXPORT_CONFLICT_LABELS: Record<ExportConflict, string> = {
+	overwrite: "Overwrite",
+	append: "Append",
+	"new-file": "Create a new file",
+	update: "Update generated section only",
+};
+
+/**
+ * Markers around the generated part of a Markdown export in "update" mode.
+ * Text outside them is the user's and survives re-exports. The end marker
+ * carries a JSON manifest of the exported items, used to report changes.
+ */
+const EXPORT_START_MARKER =
+	"%% highlights-sidebar:start — generated on export, edits between these markers are replaced %%";
+const EXPORT_END_MARKER_PREFIX = "%% highlights-sidebar:end";
+
+/** Whether `item` is one of the markers written by `replaceGeneratedRegion` */
+function isExportMarker(item: ParsedItem): boolean {
+	if (item.type !== "comment") return false;
+	return (
+		item.source === EXPORT_START_MARKER ||
+		(item.source.startsWith(`${EXPORT_END_MARKER_PREFIX} [`) &&
+			item.source.endsWith("] %%"))
+	);
+}
+
+/** Minimal identity of an exported item, for diffing consecutive exports */
+interface ExportEntry {
+	type: ItemType;
+	text: string;
+}
+
+interface ExportResult {
+	file: TFile;
+	/** only set when a previous export could be read */
+	added?: ExportEntry[];
+	removed?: ExportEntry[];
+}
+
+/**
+ * Fill `{{name}}` placeholders from `vars`. `{{date:FORMAT}}` formats the
+ * current time with moment; a bare `{{date}}` uses `vars.date`. Unknown
+ * placeholders are left as written.
+ */
+function renderTemplate(template: string, vars: Record<string, string>): string {
+	return template.replace(
+		/\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g,
+		(match, name: string, format?: string) => {
+			if (name === "date" && format) return moment().format(format.trim());
+			return vars[name] ?? match;
+		}
+	);
+}
+
+/** Template variables describing one item; also the CSV / JSON fields */
+function describeItem(
+	item: ParsedItem,
+	source: ExportSource,
+	settings: HighlightsSidebarSettings
+): Record<string, string> {
+	// Multi-line comments and marks must stay on a single list line
+	const text = item.text.replace(/\s*\n\s*/g, " ");
+	const category = getColorCategory(item, settings.colorCategories) ?? "";
+	const section =
+		getSectionMeta(settings).find((s) => s.type === item.type)?.label ??
+		item.type;
+
+	const heading = source.headings
+		? getHeadingPath(source.headings, item.line)
+				.map((h) => h.text)
+				.join(" › ")
+		: "";
+	const blockId = source.blockIds?.get(item);
+	const lines =
+		item.endLine > item.line
+			? `lines ${item.line + 1}–${item.endLine + 1}`
+			: `line ${item.line + 1}`;
+
+	let markup = text;
+	if (item.type === "highlight") {
+		markup = `${category ? `**${category}:** ` : ""}==${text}==`;
+	}
+
+	let details = "";
+	if (item.references && item.references.length > 0) {
+		const refLines = item.references.map((r) => r.line + 1);
+		details += ` — referenced on line${refLines.length > 1 ? "s" : ""} ${refLines.join(", ")}`;
+	}
+	if (item.footnoteProblem === "orphan") {
+		details += " — ⚠ never referenced";
+	} else if (item.footnoteProblem === "dangling") {
+		details += " — ⚠ no definition";
+	}
+
+	return {
+		note: source.displayName,
+		path: source.path,
+		type: item.type,
+		section,
+		heading,
+		text,
+		markup,
+		details,
+		category,
+		color: item.color ?? item.colorClass ?? "",
+		tags: item.tags?.join(" ") ?? "",
+		line: `${item.line + 1}`,
+		endLine: `${item.endLine + 1}`,
+		lines,
+		link: blockId
+			? `[[${source.displayName}#^${blockId}]]`
+			: `[[${source.displayName}]]`,
+		// Line numbers go stale on edit, so prefer the block link when there is one
+		location: blockId
+			? `[[${source.displayName}#^${blockId}|${lines}]]`
+			: lines,
+	};
+}
+
+/** A titled run of items in an export */
+interface ExportSection {
+	label: string;
+	items: ParsedItem[];
+}
+
+/**
+ * Items in export order: one run per section, each sorted by line. With
+ * headings, sections follow the note's headings in document order and are
+ * labelled with their heading path.
+ */
+function exportSections(
+	items: ParsedItem[],
+	settings: HighlightsSidebarSettings,
+	headings?: NoteHeading[]
+): ExportSection[] {
+	if (headings) {
+		const sections: ExportSection[] = [];
+		const walk = (group: HeadingGroup) => {
+			if (group.items.length > 0) {
+				sections.push({
+					label: group.heading
+						? group.path.join(" › ")
+						: NO_HEADING_LABEL,
+					items: group.items,
+				});
+			}
+			group.children.forEach(walk);
+		};
+		walk(groupByHeading(items, headings));
+		return sections;
+	}
+
+	return getSectionMeta(settings)
+		.map((meta) => ({
+			label: meta.label,
+			items: sortItems(
+				items.filter((item) => item.type === meta.type),
+				"line-asc"
+			),
+		}))
+		.filter((section) => section.items.length > 0);
+}
+
+function buildMarkdownExport(
+	source: ExportSource,
+	sections: ExportSection[],
+	settings: HighlightsSidebarSettings
+): string {
+	const templates = settings.exportTemplates;
+	const count = sections.reduce((sum, s) => sum + s.items.length, 0);
+	const noteVars = {
+		note: source.displayName,
+		path: source.path,
+		date: new Date().toLocaleString(),
+		count: `${count}`,
+	};
+
+	const lines: string[] = [renderTemplate(templates.header, noteVars)];
+	for (const section of sections) {
+		lines.push(
+			renderTemplate(templates.section, {
+				...noteVars,
+				section: section.label,
+				count: `${section.items.length}`,
+			})
+		);
+		for (const item of section.items) {
+			lines.push(
+				renderTemplate(templates.item, {
+					...noteVars,
+					...describeItem(item, source, settings),
+				})
+			);
+		}
+		lines.push("");
+	}
+	lines.push(renderTemplate(templates.footer, noteVars));
+	return lines.join("\n");
+}
+
+const CSV_COLUMNS = [
+	"note",
+	"path",
+	"type",
+	"section",
+	"heading",
+	"line",
+	"endLine",
+	"text",
+	"category",
+	"color",
+	"tags",
+	"link",
+];
+
+function csvCell(value: string): string {
+	return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function buildCsvExport(
+	source: ExportSource,
+	sections: ExportSection[],
+	settings: HighlightsSidebarSettings,
+	includeHeader = true
+): string {
+	const rows = includeHeader ? [CSV_COLUMNS.join(",")] : [];
+	for (const section of sections) {
+		for (const item of section.items) {
+			const vars = describeItem(item, source, settings);
+			rows.push(CSV_COLUMNS.map((col) => csvCell(vars[col])).join(","));
+		}
+	}
+	return rows.join("\n") + "\n";
+}
+
+function buildJsonExport(
+	source: ExportSource,
+	sections: ExportSection[],
+	settings: HighlightsSidebarSettings
+): Record<string, unknown> {
+	return {
+		note: source.displayName,
+		path: source.path,
+		exported: new Date().toISOString(),
+		annotations: sections.flatMap((section) =>
+			section.items.map((item) => {
+				const vars = describeItem(item, source, settings);
+				return {
+					type: item.type,
+					section: vars.section,
+					heading: vars.heading || undefined,
+					text: item.text,
+					line: item.line + 1,
+					endLine: item.endLine + 1,
+					category: vars.category || undefined,
+					color: vars.color || undefined,
+					tags: item.tags,
+					link: vars.link,
+				};
+			})
+		),
+	};
+}
+
+/** Strip characters that are not allowed in file names */
+function sanitizeFilename(name: string): string {
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim();
+}
+
+/** Entries on both sides of a re-export: what is new and what is gone */
+function diffExportEntries(
+	previous: ExportEntry[],
+	current: ExportEntry[]
+): { added: ExportEntry[]; removed: ExportEntry[] } {
+	const key = (e: ExportEntry) => `${e.type}\u0000${e.text}`;
+	const remaining = new Map<string, number>();
+	for (const e of previous) {
+		remaining.set(key(e), (remaining.get(key(e)) ?? 0) + 1);
+	}
+
+	const added: ExportEntry[] = [];
+	for (const e of current) {
+		const count = remaining.get(key(e)) ?? 0;
+		if (count > 0) {
+			remaining.set(key(e), count - 1);
+		} else {
+			added.push(e);
+		}
+	}
+
+	const removed = previous.filter((e) => {
+		const count = remaining.get(key(e)) ?? 0;
+		if (count === 0) return false;
+		remaining.set(key(e), count - 1);
+		return true;
+	});
+	return { added, removed };
+}
+
+/** Parse one CSV document into rows of cells (RFC 4180 quoting) */
+function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const c = text[i];
+		if (quoted) {
+			if (c === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (c === '"') {
+				quoted = false;
+			} else {
+				cell += c;
+			}
+		} else if (c === '"') {
+			quoted = true;
+		} else if (c === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (c === "\n" || c === "\r") {
+			if (c === "\r" && text[i + 1] === "\n") i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += c;
+		}
+	}
+	if (cell || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows;
+}
+
+/** Read back what a previous export contained, or null if it can't be told */
+function readExportEntries(
+	format: ExportFormat,
+	content: string
+): ExportEntry[] | null {
+	try {
+		switch (format) {
+			case "markdown": {
+				const end = content.lastIndexOf(EXPORT_END_MARKER_PREFIX);
+				if (end < 0) return null;
+				const m = content
+					.slice(end + EXPORT_END_MARKER_PREFIX.length)
+					.match(/^\s*(\[[\s\S]*?\])\s*%%/);
+				return m ? JSON.parse(m[1]) : null;
+			}
+			case "json": {
+				const data = JSON.parse(content);
+				const last = Array.isArray(data) ? data[data.length - 1] : data;
+				return Array.isArray(last?.annotations)
+					? last.annotations.map((a: ExportEntry) => ({
+							type: a.type,
+							text: a.text,
+						}))
+					: null;
+			}
+			case "csv": {
+				const [header, ...rows] = parseCsv(content);
+				const typeCol = header?.indexOf("type") ?? -1;
+				const textCol = header?.indexOf("text") ?? -1;
+				if (typeCol < 0 || textCol < 0) return null;
+				return rows.map((row) => ({
+					type: row[typeCol] as ItemType,
+					text: row[textCol],
+				}));
+			}
+		}
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Swap the generated region of an update-mode Markdown export for `body`,
+ * keeping everything the user wrote around it. Without markers the region
+ * is appended after the existing content.
+ */
+function replaceGeneratedRegion(
+	existing: string,
+	body: string,
+	entries: ExportEntry[]
+): string {
+	const region = [
+		EXPORT_START_MARKER,
+		body,
+		// "%" is escaped so item text can't close the comment early
+		`${EXPORT_END_MARKER_PREFIX} ${JSON.stringify(entries).replace(/%/g, "\\u0025")} %%`,
+	].join("\n");
+
+	const start = existing.indexOf(EXPORT_START_MARKER);
+	const endMarker = existing.lastIndexOf(EXPORT_END_MARKER_PREFIX);
+	if (start >= 0 && endMarker > start) {
+		const endClose = existing.indexOf("%%", endMarker + 2);
+		const end = endClose >= 0 ? endClose + 2 : existing.length;
+		return existing.slice(0, start) + region + existing.slice(end);
+	}
+	return existing.length > 0 ? `${existing.trimEnd()}\n\n${region}\n` : region;
+}
+
+/** Whether an export shows headings: as sections, columns or {{heading}} */
+function exportUsesHeadings(
+	settings: HighlightsSidebarSettings,
+	options: ExportOptions
+): boolean {
+	return (
+		options.groupBy === "heading" ||
+		options.format !== "markdown" ||
+		settings.exportTemplates.item.includes("{{heading}}")
+	);
+}
+
+/**
+ * Write the annotations of `source` to a file according to `options`,
+ * creating the target folder if needed. When the target existed and its
+ * previous contents could be read, the result lists what changed.
+ */
+async function writeExport(
+	app: App,
+	settings: HighlightsSidebarSettings,
+	source: ExportSource,
+	items: ParsedItem[],
+	options: ExportOptions = settings.exportOptions
+): Promise<ExportResult> {
+	const { vault } = app;
+	const extension = EXPORT_EXTENSIONS[options.format];
+
+	const sourceFile = vault.getAbstractFileByPath(source.path);
+	if (sourceFile instanceof TFile) {
+		// Callers showing unsaved edits pass headings parsed from those
+		let headings = source.headings;
+		if (!headings && exportUsesHeadings(settings, options)) {
+			headings = parseHeadings(await vault.cachedRead(sourceFile));
+		}
+		source = {
+			...source,
+			headings,
+			blockIds: options.blockLinks
+				? await ensureBlockIds(app, sourceFile, items)
+				: source.blockIds,
+		};
+	}
+
+	const sections = exportSections(
+		items,
+		settings,
+		options.groupBy === "heading" ? source.headings : undefined
+	);
+	const entries: ExportEntry[] = sections.flatMap((section) =>
+		section.items.map((item) => ({ type: item.type, text: item.text }))
+	);
+
+	// Target folder: configured, or the source note's own folder
+	let folder = normalizePath(options.folder || "/");
+	if (!options.folder) {
+		folder =
+			sourceFile instanceof TFile ? sourceFile.parent?.path ?? "" : "";
+	}
+	if (folder === "/") folder = "";
+	if (folder && !(vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+		await vault.createFolder(folder);
+	}
+
+	const baseName =
+		sanitizeFilename(
+			renderTemplate(options.filename, {
+				note: source.displayName,
+				date: moment().format("YYYY-MM-DD"),
+			})
+		) || `${sanitizeFilename(source.displayName)} - Annotations`;
+	const pathFor = (name: string) =>
+		normalizePath(`${folder ? `${folder}/` : ""}${name}.${extension}`);
+
+	let exportPath = pathFor(baseName);
+	const existing = vault.getAbstractFileByPath(exportPath);
+
+	if (existing instanceof TFile) {
+		if (options.conflict === "new-file") {
+			let n = 1;
+			while (vault.getAbstractFileByPath(pathFor(`${baseName} ${n}`))) {
+				n++;
+			}
+			exportPath = pathFor(`${baseName} ${n}`);
+		} else {
+			const previousContent = await vault.read(existing);
+			const previous = readExportEntries(options.format, previousContent);
+
+			switch (options.conflict) {
+				case "overwrite":
+					await vault.modify(existing, buildExport());
+					break;
+				case "append":
+					await vault.modify(existing, appendExport(previousContent));
+					break;
+				case "update":
+					await vault.modify(existing, updateExport(previousContent));
+					break;
+			}
+			return previous
+				? { file: existing, ...diffExportEntries(previous, entries) }
+				: { file: existing };
+		}
+	}
+
+	const file = await vault.create(
+		exportPath,
+		options.conflict === "update" && options.format === "markdown"
+			? replaceGeneratedRegion("", buildExport(), entries)
+			: buildExport()
+	);
+	return { file };
+
+	function buildExport(): string {
+		switch (options.format) {
+			case "csv":
+				return buildCsvExport(source, sections, settings);
+			case "json":
+				return JSON.stringify(
+					buildJsonExport(source, sections, settings),
+					null,
+					2
+				);
+			default:
+				return buildMarkdownExport(source, sections, settings);
+		}
+	}
+
+	function appendExport(previous: string): string {
+		switch (options.format) {
+			case "csv":
+				// Rows only: the existing file already has the header
+				return (
+					previous +
+					buildCsvExport(source, sections, settings, false)
+				);
+			case "json": {
+				// Keep a JSON array of exports
+				const entry = buildJsonExport(source, sections, settings);
+				let data: unknown;
+				try {
+					data = JSON.parse(previous);
+				} catch {
+					data = undefined;
+				}
+				const all = Array.isArray(data)
+					? [...data, entry]
+					: data === undefined
+						? [entry]
+						: [data, entry];
+				return JSON.stringify(all, null, 2);
+			}
+			default:
+				return `${previous}\n\n${buildExport()}`;
+		}
+	}
+
+	/** Markdown keeps the user's text; CSV and JSON are simply rewritten */
+	function updateExport(previous: string): string {
+		return options.format === "markdown"
+			? replaceGeneratedRegion(previous, buildExport(), entries)
+			: buildExport();
+	}
+}
+
+/** Notice text for an export, listing a few of the changed items */
+function describeExportResult(
+	file: TFile,
+	count: number,
+	added?: ExportEntry[],
+	removed?: ExportEntry[]
+): DocumentFragment {
+	return createFragment((frag) => {
+		frag.createDiv({
+			text: `Exported ${count} annotation${count === 1 ? "" : "s"} to ${file.path}`,
+		});
+		if (!added || !removed) return;
+		if (added.length === 0 && removed.length === 0) {
+			frag.createDiv({ text: "No changes since the last export." });
+			return;
+		}
+		frag.createDiv({
+			text: `${added.length} added, ${removed.length} removed since the last export:`,
+		});
+		const shorten = (text: string) =>
+			text.length > 60 ? `${text.slice(0, 57)}…` : text;
+		const list = [
+			...added.map((e) => `+ ${shorten(e.text)}`),
+			...removed.map((e) => `− ${shorten(e.text)}`),
+		];
+		for (const line of list.slice(0, 8)) {
+			frag.createDiv({ text: line });
+		}
+		if (list.length > 8) {
+			frag.createDiv({ text: `…and ${list.length - 8} more` });
+		}
+	});
+}
+
+// ─── Data files ──────────────────────────────────────────────────────────────
+
+/**
+ * A JSON file in the plugin's folder whose data carries a `version`. Data
+ * of another version reads as missing, so it is started over.
+ */
+class DataFile<T extends { version: number }> {
+	private app: App;
+	private path: string;
+	private version: number;
+
+	constructor(app: App, path: string, version: number) {
+		this.app = app;
+		this.path = path;
+		this.version = version;
+	}
+
+	/** The file's data, or null if it is missing, unreadable or outdated */
+	async read(): Promise<T | null> {
+		const { adapter } = this.app.vault;
+		try {
+			if (!(await adapter.exists(this.path))) return null;
+			const data = JSON.parse(await adapter.read(this.path));
+			return data?.version === this.version ? data : null;
+		} catch {
+			return null;
+		}
+	}
+
+	async write(data: T): Promise<void> {
+		await this.app.vault.adapter.write(this.path, JSON.stringify(data));
+	}
+}
+
+// ─── Annotation index ────────────────────────────────────────────────────────
+
+/** Bump when the parser's output changes, so old indexes are rebuilt */
+const INDEX_VERSION = 8;
+
+/** A note's annotations as of the file's `mtime` and `size` */
+interface IndexEntry {
+	mtime: number;
+	size: number;
+	items: ParsedItem[];
+}
+
+/** The index file: entries by note path, for one set of custom types */
+interface IndexData {
+	version: number;
+	typesKey: string;
+	notes: Record<string, IndexEntry>;
+}
+
+/** What `AnnotationIndex.check` found (and fixed) */
+interface IndexCheck {
+	notes: number;
+	/** notes changed since they were indexed, or never indexed */
+	stale: number;
+	/** entries for notes that no longer exist */
+	removed: number;
+	/** up-to-date entries whose items differ from a fresh parse */
+	corrupt: number;
+}
+
+/**
+ * Parsed annotations of every note, saved to a file in the plugin's
+ * folder so vault-wide queries don't reparse notes that haven't changed
+ * since the last session. Entries are refreshed lazily: `get` reparses a
+ * note whose mtime or size no longer match.
+ */
+class AnnotationIndex {
+	private app: App;
+	private file: DataFile<IndexData>;
+	private data: IndexData = {
+		version: INDEX_VERSION,
+		typesKey: "",
+		notes: {},
+	};
+	private loaded: Promise<void> | null = null;
+	// A failed write is tried again with the next change
+	private debouncedSave = debounce(
+		() => this.save().catch(() => undefined),
+		2000,
+		true
+	);
+	private dirty = false;
+
+	constructor(app: App, path: string) {
+		this.app = app;
+		this.file = new DataFile(app, path, INDEX_VERSION);
+	}
+
+	/**
+	 * Read the index file. A missing, unreadable or outdated one starts
+	 * out empty and is rebuilt as notes are read.
+	 */
+	load(): Promise<void> {
+		this.loaded ??= this.file.read().then((data) => {
+			if (data?.notes) this.data = data;
+		});
+		return this.loaded;
+	}
+
+	/** Write pending changes to the index file */
+	async save(): Promise<void> {
+		if (!this.dirty) return;
+		this.dirty = false;
+		try {
+			await this.file.write(this.data);
+		} catch (e) {
+			this.dirty = true;
+			throw e;
+		}
+	}
+
+	/**
+	 * The note's annotations, reparsing it if it changed since indexed.
+	 * Items are copies, so callers can't change what the index holds.
+	 */
+	async get(file: TFile, customTypes: CustomType[]): Promise<ParsedItem[]> {
+		await this.load();
+		this.useTypes(customTypes);
+		let entry = this.data.notes[file.path];
+		if (
+			!entry ||
+			entry.mtime !== file.stat.mtime ||
+			entry.size !== file.stat.size
+		) {
+			const content = await this.app.vault.cachedRead(file);
+			this.set(file, parseContent(content, customTypes));
+			entry = this.data.notes[file.path];
+		}
+		return entry.items.map((item) => ({ ...item }));
+	}
+
+	async rename(oldPath: string, newPath: string): Promise<void> {
+		await this.load();
+		const entry = this.data.notes[oldPath];
+		if (!entry) return;
+		delete this.data.notes[oldPath];
+		this.data.notes[newPath] = entry;
+		this.changed();
+	}
+
+	async delete(path: string): Promise<void> {
+		await this.load();
+		if (!(path in this.data.notes)) return;
+		delete this.data.notes[path];
+		this.changed();
+	}
+
+	/** Reparse every note; returns the number of notes and annotations */
+	async rebuild(
+		customTypes: CustomType[]
+	): Promise<{ notes: number; items: number }> {
+		await this.load();
+		this.data = {
+			version: INDEX_VERSION,
+			typesKey: this.getTypesKey(customTypes),
+			notes: {},
+		};
+		// Saved even when the vault has no notes to add back
+		this.dirty = true;
+		let items = 0;
+		const files = this.app.vault.getMarkdownFiles();
+		for (const file of files) {
+			items += (await this.get(file, customTypes)).length;
+		}
+		await this.save();
+		return { notes: files.length, items };
+	}
+
+	/**
+	 * Compare the index with the vault: reparse every note and count the
+	 * entries that were stale, left over or wrong. All of them are fixed.
+	 */
+	async check(customTypes: CustomType[]): Promise<IndexCheck> {
+		await this.load();
+		this.useTypes(customTypes);
+		const files = this.app.vault.getMarkdownFiles();
+		const result: IndexCheck = {
+			notes: files.length,
+			stale: 0,
+			removed: 0,
+			corrupt: 0,
+		};
+
+		const paths = new Set(files.map((file) => file.path));
+		for (const path of Object.keys(this.data.notes)) {
+			if (paths.has(path)) continue;
+			await this.delete(path);
+			result.removed++;
+		}
+
+		for (const file of files) {
+			const entry = this.data.notes[file.path];
+			const items = parseContent(
+				await this.app.vault.cachedRead(file),
+				customTypes
+			);
+			if (
+				!entry ||
+				entry.mtime !== file.stat.mtime ||
+				entry.size !== file.stat.size
+			) {
+				result.stale++;
+			} else if (JSON.stringify(entry.items) !== JSON.stringify(items)) {
+				result.corrupt++;
+			} else {
+				continue;
+			}
+			this.set(file, items);
+		}
+
+		await this.save();
+		return result;
+	}
+
+	private set(file: TFile, items: ParsedItem[]): void {
+		this.data.notes[file.path] = {
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+			items,
+		};
+		this.changed();
+	}
+
+	/** Entries parsed with other custom types are dropped */
+	private useTypes(customTypes: CustomType[]): void {
+		const typesKey = this.getTypesKey(customTypes);
+		if (typesKey === this.data.typesKey) return;
+		this.data = { version: INDEX_VERSION, typesKey, notes: {} };
+		this.changed();
+	}
+
+	private getTypesKey(customTypes: CustomType[]): string {
+		return JSON.stringify(
+			customTypes.map((custom) => [custom.id, custom.pattern])
+		);
+	}
+
+	private changed(): void {
+		this.dirty = true;
+		this.debouncedSave();
+	}
+}
+
+// ─── Digest ──────────────────────────────────────────────────────────────────
+
+const DIGEST_VERSION = 2;
+
+/** A highlight in the digest snapshot */
+interface DigestEntry extends ExportEntry {
+	/** mtime of its note when the highlight was first seen there */
+	added: number;
+}
+
+/** Highlights of every note as of the last digest, and when that was */
+interface DigestData {
+	version: number;
+	/** ms timestamp of the last digest; 0 before the first */
+	since: number;
+	notes: Record<string, DigestEntry[]>;
+}
+
+/**
+ * ms timestamps between which a digest lists highlights, both included.
+ * A range without an end runs up to now.
+ */
+interface DigestRange {
+	from: number;
+	to?: number;
+}
+
+/** A note's highlights that were first seen within a digest's range */
+interface DigestNote {
+	file: TFile;
+	items: ParsedItem[];
+}
+
+/**
+ * The highlights each note had when the last digest was made, saved to a
+ * file in the plugin's folder, each with the time it was first seen (the
+ * mtime of its note then). A digest lists the highlights first seen within
+ * its range: new highlights, and highlights whose text changed.
+ */
+class DigestSnapshot {
+	private app: App;
+	private file: DataFile<DigestData>;
+	private data: DigestData = { version: DIGEST_VERSION, since: 0, notes: {} };
+	private loaded: Promise<void> | null = null;
+
+	constructor(app: App, path: string) {
+		this.app = app;
+		this.file = new DataFile(app, path, DIGEST_VERSION);
+	}
+
+	/** Read the snapshot file; a missing or outdated one starts out empty */
+	load(): Promise<void> {
+		this.loaded ??= this.file.read().then((data) => {
+			if (data?.notes) this.data = data;
+		});
+		return this.loaded;
+	}
+
+	/** When the last digest was made, 0 before the first */
+	async getSince(): Promise<number> {
+		await this.load();
+		return this.data.since;
+	}
+
+	async rename(oldPath: string, newPath: string): Promise<void> {
+		await this.load();
+		const entries = this.data.notes[oldPath];
+		if (!entries) return;
+		delete this.data.notes[oldPath];
+		this.data.notes[newPath] = entries;
+		await this.file.write(this.data);
+	}
+
+	async delete(path: string): Promise<void> {
+		await this.load();
+		if (!(path in this.data.notes)) return;
+		delete this.data.notes[path];
+		await this.file.write(this.data);
+	}
+
+	/**
+	 * Highlights first seen within `range`, and a new snapshot of every
+	 * note to pass to `commit` once the digest is written. Only notes
+	 * modified since the last digest, or with highlights first seen within
+	 * the range, are read.
+	 */
+	async collect(
+		range: DigestRange,
+		getHighlights: (file: TFile) => Promise<ParsedItem[]>,
+		exclude: (file: TFile) => boolean
+	): Promise<{ notes: DigestNote[]; snapshot: DigestData }> {
+		await this.load();
+		const now = Date.now();
+		const inRange = (time: number) =>
+			time >= range.from && time <= (range.to ?? Infinity);
+		const notes: DigestNote[] = [];
+		const snapshot: Record<string, DigestEntry[]> = {};
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (exclude(file)) continue;
+			const previous = this.data.notes[file.path];
+			if (
+				previous &&
+				file.stat.mtime <= this.data.since &&
+				!previous.some((entry) => inRange(entry.added))
+			) {
+				snapshot[file.path] = previous;
+				continue;
+			}
+			const items = await getHighlights(file);
+			const entries = dateItems(previous ?? [], items, file.stat.mtime);
+			if (entries.length > 0) snapshot[file.path] = entries;
+			const added = items.filter((_, i) => inRange(entries[i].added));
+			if (added.length > 0) notes.push({ file, items: added });
+		}
+
+		return {
+			notes,
+			snapshot: { version: DIGEST_VERSION, since: now, notes: snapshot },
+		};
+	}
+
+	/** Save a snapshot taken by `collect` */
+	async commit(snapshot: DigestData): Promise<void> {
+		this.data = snapshot;
+		await this.file.write(snapshot);
+	}
+}
+
+/**
+ * Snapshot entries for `items`. Those in `previous`, matched by type and
+ * text like re-exports, keep the time they were first seen; the others
+ * were first seen at `mtime`.
+ */
+function dateItems(
+	previous: DigestEntry[],
+	items: ParsedItem[],
+	mtime: number
+): DigestEntry[] {
+	const key = (e: ExportEntry) => `${e.type}\u0000${e.text}`;
+	const remaining = new Map<string, number[]>();
+	for (const e of previous) {
+		const times = remaining.get(key(e)) ?? [];
+		times.push(e.added);
+		remaining.set(key(e), times);
+	}
+	return items.map((item) => ({
+		type: item.type,
+		text: item.text,
+		added: remaining.get(key(item))?.shift() ?? mtime,
+	}));
+}
+
+/** "since 2026-10-19 08:30", or "from 2026-10-01 to 2026-10-07" */
+function describeDigestRange({ from, to }: DigestRange): string {
+	if (to === undefined) {
+		return `since ${moment(from).format("YYYY-MM-DD HH:mm")}`;
+	}
+	const day = (time: number) => moment(time).format("YYYY-MM-DD");
+	return `from ${day(from)} to ${day(to)}`;
+}
+
+const DIGEST_NAME = /^Highlights \d{4}-\d{2}-\d{2}$/;
+
+function getDigestFolder(settings: HighlightsSidebarSettings): string {
+	const folder = normalizePath(settings.digestFolder || "/");
+	return folder === "/" ? "" : folder;
+}
+
+/** Whether `file` is a note written by `writeDigest` */
+function isDigestNote(
+	file: TFile,
+	settings: HighlightsSidebarSettings
+): boolean {
+	return (
+		(file.parent?.path ?? "/") === (getDigestFolder(settings) || "/") &&
+		DIGEST_NAME.test(file.basename)
+	);
+}
+
+/**
+ * Write a digest of `notes` to a note named after today's date in the
+ * digest folder, one section per source note; a second digest on the same
+ * day is appended. Items use the export item template and block links.
+ */
+async function writeDigest(
+	app: App,
+	settings: HighlightsSidebarSettings,
+	notes: DigestNote[],
+	range: DigestRange
+): Promise<TFile> {
+	const { vault } = app;
+	const folder = getDigestFolder(settings);
+	if (folder && !(vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+		await vault.createFolder(folder);
+	}
+	const path = normalizePath(
+		`${folder ? `${folder}/` : ""}Highlights ${moment().format(
+			"YYYY-MM-DD"
+		)}.md`
+	);
+
+	const count = notes.reduce((sum, note) => sum + note.items.length, 0);
+	const lines = [
+		`# Highlights ${describeDigestRange(range)}`,
+		"",
+		`> ${count} new highlight${count === 1 ? "" : "s"} in ` +
+			`${notes.length} note${notes.length === 1 ? "" : "s"}`,
+		"",
+	];
+	for (const { file, items } of notes) {
+		const source: ExportSource = {
+			displayName: file.basename,
+			path: file.path,
+			headings: parseHeadings(await vault.cachedRead(file)),
+			blockIds: settings.exportOptions.blockLinks
+				? await ensureBlockIds(app, file, items)
+				: undefined,
+		};
+		const link = app.metadataCache.fileToLinktext(file, path, true);
+		lines.push(`## [[${link}]]`, "");
+		for (const item of items) {
+			lines.push(
+				renderTemplate(settings.exportTemplates.item, {
+					note: source.displayName,
+					path: source.path,
+					...describeItem(item, source, settings),
+				})
+			);
+		}
+		lines.push("");
+	}
+	const digest = lines.join("\n");
+
+	const existing = vault.getAbstractFileByPath(path);
+	if (existing instanceof TFile) {
+		const previous = await vault.read(existing);
+		await vault.modify(existing, `${previous.trimEnd()}\n\n${digest}`);
+		return existing;
+	}
+	return vault.create(path, digest);
+}
+
+// ─── Navigation ──────────────────────────────────────────────────────────────
+
+/**
+ * Open a note and select an item in it. `newLeaf` is passed on to
+ * `workspace.getLeaf`, e.g. the result of `Keymap.isModEvent`.
+ */
+async function revealItem(
+	app: App,
+	item: SourceRange,
+	notePath: string,
+	newLeaf: PaneType | boolean = false
+): Promise<void> {
+	// First, ensure the correct file is open
+	const file = app.vault.getAbstractFileByPath(notePath);
+	if (!(file instanceof TFile)) return;
+	// Open the file in the most recent leaf, unless `newLeaf` asks otherwise
+	const leaf = app.workspace.getLeaf(newLeaf);
+	await leaf.openFile(file);
+
+	const view = leaf.view;
+	if (!(view instanceof MarkdownView)) return;
+
+	const editor: Editor = view.editor;
+
+	const from = { line: item.line, ch: item.ch };
+	const to = { line: item.endLine, ch: item.endCh };
+
+	// Reveal the target range
+	editor.setCursor(from);
+	editor.scrollIntoView({ from, to }, true);
+
+	// Select the whole match (possibly several lines) so it's visually obvious
+	editor.setSelection(from, to);
+
+	// Make sure the editor pane is focused
+	editor.focus();
+}
+
+// ─── Query block ─────────────────────────────────────────────────────────────
+
+type QueryGroupBy = "note" | "type" | "none";
+
+/** A parsed `highlights` code block */
+interface AnnotationQuery {
+	filter: AnnotationFilter;
+	groupBy: QueryGroupBy;
+	/** most items listed; 0 for no limit */
+	limit: number;
+	/** lines that couldn't be understood, shown above the results */
+	errors: string[];
+}
+
+const QUERY_GROUPS: QueryGroupBy[] = ["note", "type", "none"];
+
+/**
+ * Parse the `key: value` lines of a `highlights` code block:
+ *
+ *     from: Reading/Books     (a folder, or a #tag)
+ *     types: highlight, comment
+ *     search: tag:#todo -draft
+ *     sort: a-z
+ *     group: type             (note, type or none)
+ *     limit: 20
+ */
+function parseAnnotationQuery(
+	source: string,
+	settings: HighlightsSidebarSettings
+): AnnotationQuery {
+	const query: AnnotationQuery = {
+		filter: {},
+		groupBy: "note",
+		limit: 0,
+		errors: [],
+	};
+	const sections = getSectionMeta(settings);
+
+	for (const rawLine of source.split("\n")) {
+		const line = rawLine.trim();
+		if (!line) continue;
+		const colon = line.indexOf(":");
+		const key = colon >= 0 ? line.slice(0, colon).trim().toLowerCase() : "";
+		const value = line.slice(colon + 1).trim();
+
+		switch (key) {
+			case "from":
+				if (value.startsWith("#")) query.filter.tag = value;
+				else query.filter.folder = value;
+				break;
+			case "type":
+			case "types": {
+				const types: ItemType[] = [];
+				for (const name of value.split(",")) {
+					const wanted = name.trim().toLowerCase();
+					if (!wanted) continue;
+					const section = sections.find(
+						(sec) =>
+							sec.type.toLowerCase() === wanted ||
+							sec.label.toLowerCase().startsWith(wanted)
+					);
+					if (section) types.push(section.type);
+					else query.errors.push(`Unknown type "${name.trim()}"`);
+				}
+				query.filter.types = types;
+				break;
+			}
+			case "search":
+				query.filter.query = value;
+				break;
+			case "sort":
+				if (value in SORT_LABELS) {
+					query.filter.sort = value as SortOrder;
+				} else {
+					query.errors.push(
+						`Unknown sort "${value}" (use ${SORT_CYCLE.join(", ")})`
+					);
+				}
+				break;
+			case "group":
+				if (QUERY_GROUPS.includes(value as QueryGroupBy)) {
+					query.groupBy = value as QueryGroupBy;
+				} else {
+					const groups = QUERY_GROUPS.join(", ");
+					query.errors.push(`Unknown group "${value}" (use ${groups})`);
+				}
+				break;
+			case "limit":
+				if (/^\d+$/.test(value)) query.limit = Number(value);
+				else query.errors.push(`Invalid limit "${value}"`);
+				break;
+			default:
+				query.errors.push(`Unknown line "${line}"`);
+		}
+	}
+
+	const searchError = parseSearchQuery(query.filter.query ?? "").error;
+	if (searchError) query.errors.push(searchError);
+	return query;
+}
+
+/** Whether `file` is in the folder and has the tag `filter` asks for */
+function isInFilterScope(
+	app: App,
+	file: TFile,
+	filter: AnnotationFilter
+): boolean {
+	const folder = normalizePath(filter.folder || "/");
+	if (folder !== "/" && !file.path.startsWith(`${folder}/`)) return false;
+	if (!filter.tag) return true;
+
+	const tag = filter.tag.replace(/^#?/, "#").toLowerCase();
+	const cache = app.metadataCache.getFileCache(file);
+	const tags = cache ? getAllTags(cache) ?? [] : [];
+	return tags.some((t) => {
+		const lower = t.toLowerCase();
+		return lower === tag || lower.startsWith(`${tag}/`);
+	});
+}
+
+/**
+ * A `highlights` code block: the annotations its query selects, listed with
+ * the sidebar's row styling and updated as notes change.
+ */
+class AnnotationQueryBlock extends MarkdownRenderChild {
+	private plugin: HighlightsSidebarPlugin;
+	private source: string;
+	private debouncedRender = debounce(() => this.render(), 1000, true);
+	/** Notes listed by the last render */
+	private shownPaths = new Set<string>();
+
+	constructor(
+		containerEl: HTMLElement,
+		plugin: HighlightsSidebarPlugin,
+		source: string
+	) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+	}
+
+	onload(): void {
+		// Custom events aren't in Workspace's typed overloads
+		const events: Events = this.plugin.app.workspace;
+		this.registerEvent(
+			events.on(ANNOTATIONS_CHANGED_EVENT, (file: TFile) => {
+				// Only notes that are, or may now be, part of the list
+				const { filter } = parseAnnotationQuery(
+					this.source,
+					this.plugin.settings
+				);
+				if (
+					this.shownPaths.has(file.path) ||
+					isInFilterScope(this.plugin.app, file, filter)
+				) {
+					this.debouncedRender();
+				}
+			})
+		);
+		this.render();
+	}
+
+	private async render(): Promise<void> {
+		const { settings } = this.plugin;
+		const query = parseAnnotationQuery(this.source, settings);
+		const el = this.containerEl;
+		let notes: NoteAnnotations[];
+		try {
+			notes = await this.plugin.getVaultAnnotations(query.filter);
+		} catch (e) {
+			el.empty();
+			el.addClass("highlights-sidebar", "highlights-sidebar-query");
+			el.createDiv({
+				text: `Couldn't list annotations: ${
+					e instanceof Error ? e.message : String(e)
+				}`,
+				cls: "highlights-sidebar-query-error",
+			});
+			return;
+		}
+		this.shownPaths = new Set(notes.map((note) => note.file.path));
+
+		// One list across notes; only alphabetical sorts mix the notes
+		let entries = notes.flatMap(({ file, items }) =>
+			items.map((item) => ({ file, item }))
+		);
+		const sort = query.filter.sort;
+		if (query.groupBy !== "note" && (sort === "a-z" || sort === "z-a")) {
+			const order = sortItems(
+				entries.map((entry) => entry.item),
+				sort
+			);
+			const byItem = new Map(entries.map((entry) => [entry.item, entry]));
+			entries = order.map((item) => byItem.get(item)!);
+		}
+		if (query.limit > 0) entries = entries.slice(0, query.limit);
+
+		el.empty();
+		el.addClass("highlights-sidebar", "highlights-sidebar-query");
+
+		for (const error of query.errors) {
+			el.createDiv({ text: error, cls: "highlights-sidebar-query-error" });
+		}
+		if (entries.length === 0) {
+			el.createEl("p", {
+				text: "No matching annotations.",
+				cls: "highlights-sidebar-empty",
+			});
+			return;
+		}
+
+		switch (query.groupBy) {
+			case "note": {
+				const byNote = new Map<TFile, ParsedItem[]>();
+				for (const { file, item } of entries) {
+					const items = byNote.get(file) ?? [];
+					items.push(item);
+					byNote.set(file, items);
+				}
+				for (const [file, items] of byNote) {
+					const list = this.renderGroup(
+						el,
+						`${file.basename} (${items.length})`,
+						"file-text"
+					);
+					for (const item of items) this.renderRow(list, item, file);
+				}
+				break;
+			}
+			case "type":
+				for (const section of getSectionMeta(settings)) {
+					const matching = entries.filter(
+						({ item }) => item.type === section.type
+					);
+					if (matching.length === 0) continue;
+					const list = this.renderGroup(
+						el,
+						`${section.label} (${matching.length})`,
+						section.icon
+					);
+					for (const { file, item } of matching) {
+						this.renderRow(list, item, file, true);
+					}
+				}
+				break;
+			default: {
+				const list = el.createDiv({ cls: "highlights-sidebar-list" });
+				for (const { file, item } of entries) {
+					this.renderRow(list, item, file, true);
+				}
+			}
+		}
+	}
+
+	/** A collapsible group; returns the element its rows go in */
+	private renderGroup(
+		container: HTMLElement,
+		label: string,
+		icon: string
+	): HTMLElement {
+		const section = container.createDiv({
+			cls: "highlights-sidebar-section",
+		});
+		const header = section.createDiv({ cls: "highlights-sidebar-header" });
+		const chevron = header.createSpan({ cls: "highlights-sidebar-chevron" });
+		setIcon(chevron, "chevron-down");
+		const headerIcon = header.createSpan({
+			cls: "highlights-sidebar-header-icon",
+		});
+		setIcon(headerIcon, icon);
+		header.createSpan({ text: label, cls: "highlights-sidebar-header-text" });
+
+		const list = section.createDiv({ cls: "highlights-sidebar-list" });
+		header.addEventListener("click", () => {
+			const collapsed = list.style.display !== "none";
+			list.style.display = collapsed ? "none" : "block";
+			chevron.empty();
+			setIcon(chevron, collapsed ? "chevron-right" : "chevron-down");
+			chevron.toggleClass("is-collapsed", collapsed);
+		});
+		return list;
+	}
+
+	private renderRow(
+		list: HTMLElement,
+		item: ParsedItem,
+		file: TFile,
+		showNote = false
+	): void {
+		const row = list.createDiv({
+			cls: `highlights-sidebar-item highlights-sidebar-item--${item.type}`,
+		});
+		const custom = this.plugin.settings.customTypes.find(
+			(c) => c.id === item.type
+		);
+		if (custom) {
+			row.addClass("highlights-sidebar-item--custom");
+			if (custom.color) row.style.borderLeftColor = custom.color;
+		}
+
+		row.createSpan({
+			text: `${item.line + 1}`,
+			cls: "highlights-sidebar-item-line",
+		});
+		if (getColorKey(item)) createSwatch(row, item);
+		row.createSpan({ text: item.text, cls: "highlights-sidebar-item-text" });
+		if (showNote) {
+			row.createSpan({
+				text: file.basename,
+				cls: "highlights-sidebar-item-badge",
+				attr: { title: file.path },
+			});
+		}
+
+		row.addEventListener("click", (e: MouseEvent) => {
+			revealItem(this.plugin.app, item, file.path, Keymap.isModEvent(e));
+		});
+	}
+}
+
+// ─── Review ──────────────────────────────────────────────────────────────────
+
+type ReviewRating = "again" | "hard" | "good" | "easy";
+
+/** Rating buttons in review mode, with their SM-2 quality (0–5) and key */
+const REVIEW_RATINGS: {
+	rating: ReviewRating;
+	label: string;
+	quality: number;
+	key: string;
+}[] = [
+	{ rating: "again", label: "Again", quality: 1, key: "1" },
+	{ rating: "hard", label: "Hard", quality: 3, key: "2" },
+	{ rating: "good", label: "Good", quality: 4, key: "3" },
+	{ rating: "easy", label: "Easy", quality: 5, key: "4" },
+];
+
+/** Sentences of context shown around a highlight under review */
+const REVIEW_CONTEXT_SENTENCES = 2;
+
+/** A highlight due in a review session */
+interface ReviewEntry {
+	file: TFile;
+	item: ParsedItem;
+	/** key of the highlight's card in `reviewSchedule` */
+	key: string;
+	/** the highlight's order among those in its block */
+	index: number;
+}
+
+/** How a highlight's review card is found (see `getReviewKeys`) */
+interface ReviewKeys {
+	/** from the `^block-id` of its block, if the block has one */
+	block?: string;
+	/** from its text, for blocks without an id */
+	text: string;
+	/** its order among the highlights of its block */
+	index: number;
+}
+
+/** 32-bit FNV-1a hash of `text`, in base 36 */
+function hashText(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(36);
+}
+
+/** Card key of the `index`th highlight in the block with id `id` */
+function blockReviewKey(id: string, index: number): string {
+	return index > 0 ? `^${id}-${index}` : `^${id}`;
+}
+
+/**
+ * Keys identifying each highlight of a note (`lines`). A highlight whose
+ * block has a `^block-id` (see `reviewBlockIds`) is keyed by it and its
+ * order in the block, so editing its text keeps its schedule. Others are
+ * keyed by their text, with repeats told apart by order.
+ */
+function getReviewKeys(
+	lines: string[],
+	items: ParsedItem[]
+): Map<ParsedItem, ReviewKeys> {
+	const { ids, inserts } = assignBlockIds(lines, items);
+	const unwritten = new Set(inserts.values());
+	const keys = new Map<ParsedItem, ReviewKeys>();
+	const inBlock = new Map<string, number>();
+	const seen = new Map<string, number>();
+	for (const item of sortItems(items, "line-asc")) {
+		const id = ids.get(item);
+		const index = id ? inBlock.get(id) ?? 0 : 0;
+		if (id) inBlock.set(id, index + 1);
+		const hash = hashText(item.text.replace(/\s+/g, " ").trim());
+		const n = seen.get(hash) ?? 0;
+		seen.set(hash, n + 1);
+		keys.set(item, {
+			block:
+				id && !unwritten.has(id) ? blockReviewKey(id, index) : undefined,
+			text: n > 0 ? `${hash}-${n}` : hash,
+			index,
+		});
+	}
+	return keys;
+}
+
+/** The card after a review rated `quality` (0–5) on `today`, as in SM-2 */
+function scheduleReview(
+	card: ReviewCard | undefined,
+	quality: number,
+	today: string
+): ReviewCard {
+	let { ease, interval, repetitions } = card ?? {
+		ease: 2.5,
+		interval: 0,
+		repetitions: 0,
+	};
+	if (quality < 3) {
+		// Forgotten: start over, but keep what was learned about the ease
+		repetitions = 0;
+		interval = 1;
+	} else {
+		if (repetitions === 0) interval = 1;
+		else if (repetitions === 1) interval = 6;
+		else interval = Math.round(interval * ease);
+		repetitions++;
+	}
+	const miss = 5 - quality;
+	ease = Math.max(1.3, ease + 0.1 - miss * (0.08 + miss * 0.02));
+	return {
+		ease: Math.round(ease * 100) / 100,
+		interval,
+		repetitions,
+		due: moment(today).add(interval, "days").format("YYYY-MM-DD"),
+	};
+}
+
+/** "1 day", "6 days", "2 mo"…: the time until a review */
+function formatInterval(days: number): string {
+	if (days <= 0) return "today";
+	if (days < 30) return days === 1 ? "1 day" : `${days} days`;
+	if (days < 365) return `${Math.round(days / 30)} mo`;
+	return `${Math.round((days / 365) * 10) / 10} yr`;
+}
+
+/** Shows a session's highlights one at a time and records their ratings */
+class ReviewModal extends Modal {
+	private plugin: HighlightsSidebarPlugin;
+	private entries: ReviewEntry[];
+	private current = 0;
+	private revealed = false;
+	/** set while a rating is being saved */
+	private saving = false;
+
+	constructor(plugin: HighlightsSidebarPlugin, entries: ReviewEntry[]) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.entries = entries;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("highlights-sidebar-review");
+		// Space shows the highlight, 1–4 rate it
+		this.scope.register([], " ", () => {
+			if (!this.revealed) this.reveal();
+			return false;
+		});
+		for (const { rating, key } of REVIEW_RATINGS) {
+			this.scope.register([], key, () => {
+				if (this.revealed) this.rate(rating);
+				return false;
+			});
+		}
+		this.showEntry();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (this.current > 0) {
+			new Notice(
+				`Reviewed ${this.current} of ${this.entries.length} highlights`
+			);
+		}
+	}
+
+	private showEntry(): void {
+		this.renderEntry().catch((e) => {
+			new Notice(
+				`Couldn't show the highlight: ${
+					e instanceof Error ? e.message : String(e)
+				}`
+			);
+			this.close();
+		});
+	}
+
+	private async renderEntry(): Promise<void> {
+		const entry = this.entries[this.current];
+		const { file, item } = entry;
+		this.revealed = false;
+		this.titleEl.setText(
+			`Review highlights (${this.current + 1} / ${this.entries.length})`
+		);
+
+		const { contentEl } = this;
+		contentEl.empty();
+		const content = await this.plugin.readNote(file);
+		// Another entry may have been rated meanwhile
+		if (this.entries[this.current] !== entry) return;
+
+		const path = getHeadingPath(parseHeadings(content), item.line);
+		const source = contentEl.createDiv({
+			text: [file.basename, ...path.map((h) => h.text)].join(" › "),
+			cls: "highlights-sidebar-review-source",
+			attr: { title: "Open the highlight in its note" },
+		});
+		source.addEventListener("click", (e: MouseEvent) => {
+			this.close();
+			revealItem(this.app, item, file.path, Keymap.isModEvent(e));
+		});
+
+		const lines = content.split("\n");
+		let context: ItemContext = { before: "", after: "" };
+		// The note may have changed since it was parsed
+		if (item.endLine < lines.length) {
+			context = getItemContext(
+				lines,
+				item,
+				"sentences",
+				REVIEW_CONTEXT_SENTENCES
+			);
+		}
+		const card = contentEl.createDiv({
+			cls: "highlights-sidebar-review-card",
+		});
+		card.createSpan({ text: context.before });
+		const highlight = card.createSpan({
+			text: item.text,
+			cls: "highlights-sidebar-review-highlight is-hidden",
+		});
+		createSwatch(highlight, item);
+		card.createSpan({ text: context.after });
+
+		const buttons = contentEl.createDiv({
+			cls: "highlights-sidebar-review-buttons",
+		});
+		const show = buttons.createEl("button", {
+			text: "Show highlight",
+			cls: "mod-cta",
+		});
+		show.addEventListener("click", () => this.reveal());
+	}
+
+	private reveal(): void {
+		const { contentEl } = this;
+		const highlight = contentEl.querySelector(
+			".highlights-sidebar-review-highlight"
+		);
+		const buttons = contentEl.querySelector<HTMLElement>(
+			".highlights-sidebar-review-buttons"
+		);
+		if (!highlight || !buttons) return;
+		this.revealed = true;
+		highlight.removeClass("is-hidden");
+
+		const { file, key } = this.entries[this.current];
+		const card = this.plugin.settings.reviewSchedule[file.path]?.[key];
+		const today = moment().format("YYYY-MM-DD");
+		buttons.empty();
+		for (const { rating, label, quality, key: shortcut } of REVIEW_RATINGS) {
+			const next = scheduleReview(card, quality, today);
+			const button = buttons.createEl("button", {
+				cls: `highlights-sidebar-review-${rating}`,
+				attr: { title: `${label} (${shortcut})` },
+			});
+			button.createSpan({ text: label });
+			button.createSpan({
+				text: formatInterval(next.interval),
+				cls: "highlights-sidebar-review-interval",
+			});
+			button.addEventListener("click", () => this.rate(rating));
+		}
+	}
+
+	/** Save a rating, then move on; a rating that fails can be given again */
+	private async rate(rating: ReviewRating): Promise<void> {
+		if (this.saving) return;
+		const entry = this.entries[this.current];
+		const { quality } = REVIEW_RATINGS.find((r) => r.rating === rating)!;
+		const buttons = this.contentEl.querySelectorAll<HTMLButtonElement>(
+			".highlights-sidebar-review-buttons button"
+		);
+		this.saving = true;
+		buttons.forEach((button) => (button.disabled = true));
+		try {
+			await this.plugin.rateReview(entry, quality);
+		} catch (e) {
+			new Notice(
+				`Couldn't save the review: ${
+					e instanceof Error ? e.message : String(e)
+				}`
+			);
+			return;
+		} finally {
+			this.saving = false;
+			buttons.forEach((button) => (button.disabled = false));
+		}
+		this.current++;
+		if (this.current < this.entries.length) this.showEntry();
+		else this.close();
+	}
+}
+
+// ─── Sidebar View ────────────────────────────────────────────────────────────
+
+interface CachedNote {
+	path: string;
+	content: string;
+	displayName: string;
+}
+
+/** A shown note's content split for context and heading lookups */
+interface NoteText {
+	content: string;
+	lines: string[];
+	/** parsed on first use */
+	headings: NoteHeading[] | null;
+}
+
+/** The note shown in note mode, and whether it is the active one */
+interface ShownNote extends CachedNote {
+	focused: boolean;
+}
+
+/** Parsed annotations for a single note, used by the vault-wide mode */
+interface NoteAnnotations {
+	file: TFile;
+	items: ParsedItem[];
+}
+
+/** What note mode last rendered, so an edit can patch it in place */
+interface RenderedNote {
+	/** Everything shown above the sections; a change means a full render */
+	signature: string;
+	notePath: string;
+	items: ParsedItem[];
+	sections: HTMLElement;
+}
+
+/** A rendered item row, reused across renders while its item is unchanged */
+interface ItemRow {
+	el: HTMLElement;
+	lineEl: HTMLElement;
+	/** The latest parse of the item; line numbers shift as the note changes */
+	item: ParsedItem;
+	notePath: string;
+	/** Owns what Markdown rendering added to the row */
+	component?: Component;
+}
+
+/** Lists with at least this many rows only render the ones near the viewport */
+const VIRTUAL_LIST_THRESHOLD = 200;
+
+/**
+ * Renders the rows of a long list that are in or near the viewport of
+ * `scroller`, with spacers standing in for the rest. Every row is assumed
+ * to be as tall as the first one; taller rows only make the spacers a
+ * little off.
+ */
+class VirtualList<T> {
+	private static readonly OVERSCAN = 30;
+	private readonly before: HTMLElement;
+	private readonly body: HTMLElement;
+	private readonly after: HTMLElement;
+	/** Last measured row height, to size new lists before they measure */
+	private static estimate = 24;
+	private rowHeight = 0;
+	private first = 0;
+	private last = -1;
+
+	constructor(
+		private readonly list: HTMLElement,
+		private readonly scroller: HTMLElement,
+		private readonly items: T[],
+		private readonly renderRow: (parent: HTMLElement, item: T) => void
+	) {
+		this.before = list.createDiv();
+		this.body = list.createDiv();
+		this.after = list.createDiv();
+		this.after.style.height = `${items.length * VirtualList.estimate}px`;
+	}
+
+	/** Scroll `item`'s row into view; false if the item is not in this list */
+	reveal(item: T): boolean {
+		const index = this.items.indexOf(item);
+		if (index < 0) return false;
+		this.update();
+		if (this.rowHeight === 0) return true;
+
+		const view = this.scroller.getBoundingClientRect();
+		const rowTop =
+			this.body.getBoundingClientRect().top +
+			(index - this.first) * this.rowHeight;
+		if (rowTop < view.top || rowTop + this.rowHeight > view.bottom) {
+			this.scroller.scrollTop += rowTop - view.top - view.height / 2;
+			this.update();
+		}
+		return true;
+	}
+
+	/** Render the rows now in view, unless they are already rendered */
+	update(): void {
+		if (!this.list.isConnected || this.list.offsetParent === null) return;
+		if (this.rowHeight === 0) {
+			this.renderRange(0, 0);
+			const row = this.body.firstElementChild as HTMLElement | null;
+			this.rowHeight = row?.offsetHeight || VirtualList.estimate;
+			VirtualList.estimate = this.rowHeight;
+		}
+
+		const view = this.scroller.getBoundingClientRect();
+		const top =
+			this.body.getBoundingClientRect().top - this.first * this.rowHeight;
+		const visibleFirst = Math.max(
+			0,
+			Math.floor((view.top - top) / this.rowHeight)
+		);
+		const visibleLast = Math.min(
+			this.items.length - 1,
+			Math.ceil((view.bottom - top) / this.rowHeight)
+		);
+		if (
+			visibleFirst > visibleLast ||
+			(visibleFirst >= this.first && visibleLast <= this.last)
+		) {
+			return;
+		}
+
+		this.renderRange(
+			Math.max(0, visibleFirst - VirtualList.OVERSCAN),
+			Math.min(this.items.length - 1, visibleLast + VirtualList.OVERSCAN)
+		);
+	}
+
+	private renderRange(first: number, last: number): void {
+		if (first === this.first && last === this.last) return;
+		this.first = first;
+		this.last = last;
+		this.body.empty();
+		for (let i = first; i <= last; i++) {
+			this.renderRow(this.body, this.items[i]);
+		}
+		const remaining = this.items.length - 1 - last;
+		this.before.style.height = `${first * this.rowHeight}px`;
+		this.after.style.height = `${remaining * this.rowHeight}px`;
+	}
+}
+
+class HighlightsSidebarView extends ItemView implements HoverParent {
+	hoverPopover: HoverPopover | null = null;
+	/** Row the open `hoverPopover` belongs to */
+	private previewTarget: HTMLElement | null = null;
+	private plugin: HighlightsSidebarPlugin;
+	private searchQuery: string = "";
+	private query: SearchQuery = parseSearchQuery("");
+	private cachedNote: CachedNote | null = null;
+	/** Re-scans only the edited paragraphs of the note being shown */
+	private parser = new IncrementalParser();
+	private rendered: RenderedNote | null = null;
+	/** What is shown ("vault" or a note path); scroll is kept while it stays */
+	private location = "";
+	/** Rows from earlier renders by `rowKeys` key, reused by later ones */
+	private rows = new Map<string, ItemRow>();
+	private rowKeys = new Map<ParsedItem, string>();
+	private virtualLists: VirtualList<ParsedItem>[] = [];
+	/** Follow mode: key of the row marked as the annotation at the cursor */
+	private currentRowKey: string | null = null;
+	private currentHeadingEl: HTMLElement | null = null;
+	private currentHeading: HeadingCache | null = null;
+	/** Lines and headings of the note shown, kept until its content changes */
+	private noteText: NoteText | null = null;
+	/** Surrounding text per item, when rows show context */
+	private itemContexts = new Map<ParsedItem, ItemContext>();
+	/** Parts of each item's text matched by the search, to highlight */
+	private itemMatches = new Map<ParsedItem, SearchMatches>();
+	/** Comments answering another comment, and comments of resolved threads */
+	private replyItems = new Set<ParsedItem>();
+	private resolvedItems = new Set<ParsedItem>();
+	private debouncedFollowCursor = debounce(
+		() => this.followCursor(),
+		100,
+		true
+	);
+	/** Vault scan results; null until the first scan has completed */
+	private vaultNotes: NoteAnnotations[] | null = null;
+	private vaultScanning = false;
+	/** Why the last vault scan failed; cleared by a rescan */
+	private vaultError: string | null = null;
+	/** Collapsed note and color groups (section collapse state is in settings) */
+	private collapsedGroups = new Set<string>();
+	/** Color key (see `getColorKey`) that items are filtered to, if any */
+	private colorFilter: string | null = null;
+	/** Lowercased tag (with its `#`) that items are filtered to, if any */
+	private tagFilter: string | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: HighlightsSidebarPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Highlights & Comments";
+	}
+
+	getIcon(): string {
+		return ICON_NAME;
+	}
+
+	async onOpen(): Promise<void> {
+		// Long lists only render the rows in view, so follow scroll and size
+		this.registerDomEvent(this.contentEl, "scroll", () =>
+			this.updateVirtualLists()
+		);
+		const resizeObserver = new ResizeObserver(() =>
+			this.updateVirtualLists()
+		);
+		resizeObserver.observe(this.contentEl);
+		this.register(() => resizeObserver.disconnect());
+
+		// There is no cursor event, but moving the cursor moves the selection
+		this.registerDomEvent(document, "selectionchange", () => {
+			if (this.plugin.settings.followCursor) this.debouncedFollowCursor();
+		});
+
+		this.renderContent();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	// ── Rendering ──────────────────────────────────────────────────────────
+
+	renderContent(): void {
+		this.keepViewState(() => this.buildContent());
+	}
+
+	/**
+	 * Bring the view up to date after an edit or a leaf change. When only
+	 * the note's annotations changed, the header and search bar are left in
+	 * place and the sections are re-rendered with their rows reused; any
+	 * other change is a full `renderContent`.
+	 */
+	refresh(): void {
+		const { rendered } = this;
+		const note =
+			this.plugin.settings.viewMode === "note" ? this.resolveNote() : null;
+		if (!rendered || !note || note.path !== rendered.notePath) {
+			this.renderContent();
+			return;
+		}
+
+		const items = this.parseNote(note);
+		if (this.getChromeSignature(note, items) !== rendered.signature) {
+			this.renderContent();
+			return;
+		}
+		rendered.items = items;
+		this.keepViewState(() =>
+			this.renderSections(rendered.sections, items, note.path)
+		);
+	}
+
+	/** Drop reusable rows, e.g. after a setting that changes how rows look */
+	invalidateRows(): void {
+		this.rows.forEach((row) => this.releaseRow(row));
+		this.rows.clear();
+	}
+
+	private releaseRow(row: ItemRow): void {
+		if (row.component) this.removeChild(row.component);
+	}
+
+	private buildContent(): void {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("highlights-sidebar");
+		this.rendered = null;
+		this.virtualLists = [];
+		this.currentHeadingEl = null;
+
+		// Apply font-size from settings
+		container.style.fontSize = `${this.plugin.settings.fontSize}px`;
+
+		if (this.plugin.settings.viewMode === "vault") {
+			this.location = "vault";
+			this.renderVaultContent(container);
+			return;
+		}
+
+		const note = this.resolveNote();
+		if (!note) {
+			// No active view and no cache
+			this.location = "";
+			const emptyHeader = container.createDiv({
+				cls: "highlights-sidebar-note-header",
+			});
+			emptyHeader.createSpan({
+				text: "No note",
+				cls: "highlights-sidebar-note-title",
+			});
+			this.renderModeButton(emptyHeader);
+			container.createEl("p", {
+				text: "Open a note to see its highlights, comments, and footnotes.",
+				cls: "highlights-sidebar-empty",
+			});
+			return;
+		}
+
+		const { path: notePath, displayName } = note;
+		this.location = notePath;
+		const allItems = this.parseNote(note);
+		const sectionsContainer = createDiv({
+			cls: "highlights-sidebar-sections",
+		});
+		const rendered: RenderedNote = {
+			signature: this.getChromeSignature(note, allItems),
+			notePath,
+			items: allItems,
+			sections: sectionsContainer,
+		};
+		this.rendered = rendered;
+
+		// ── Note title header ──────────────────────────────────────────────
+		const noteHeader = container.createDiv({
+			cls: "highlights-sidebar-note-header",
+		});
+		noteHeader.createSpan({
+			text: displayName,
+			cls: "highlights-sidebar-note-title",
+		});
+		// Show indicator if viewing cached (non-active) note
+		if (!note.focused) {
+			noteHeader.createSpan({
+				text: "(not focused)",
+				cls: "highlights-sidebar-note-status",
+			});
+		}
+
+		// Export button
+		if (allItems.length > 0) {
+			const exportBtn = noteHeader.createSpan({
+				cls: "highlights-sidebar-export-btn",
+				attr: {
+					"aria-label": "Export annotations",
+					title: "Export annotations",
+				},
+			});
+			setIcon(exportBtn, "file-output");
+			exportBtn.addEventListener("click", () => {
+				this.exportAnnotations(displayName, notePath, rendered.items);
+			});
+		}
+
+		this.renderHeadingButton(noteHeader);
+		this.renderFollowButton(noteHeader);
+		this.renderModeButton(noteHeader);
+
+		if (this.plugin.settings.followCursor) {
+			this.currentHeading = null;
+			this.currentHeadingEl = container.createDiv({
+				cls: "highlights-sidebar-current-heading",
+			});
+			this.currentHeadingEl.addEventListener("click", () => {
+				const heading = this.currentHeading;
+				if (!heading) return;
+				const { start, end } = heading.position;
+				this.scrollToItem(
+					{
+						line: start.line,
+						ch: start.col,
+						endLine: end.line,
+						endCh: end.col,
+					},
+					notePath
+				);
+			});
+		}
+
+		// ── Search bar + toggle bar ────────────────────────────────────────
+		this.renderSearchBar(container, () =>
+			this.keepViewState(() =>
+				this.renderSections(sectionsContainer, rendered.items, notePath)
+			)
+		);
+		this.renderToggleBar(container);
+		this.renderColorBar(container, allItems);
+		this.renderTagBar(container, allItems);
+
+		// ── Sections container ─────────────────────────────────────────────
+		container.appendChild(sectionsContainer);
+		this.renderSections(sectionsContainer, allItems, notePath);
+	}
+
+	/** The active note, or the last one shown while another view is active */
+	private resolveNote(): ShownNote | null {
+		const activeView =
+			this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (activeView && activeView.file) {
+			// Update cache with current active note
+			this.cachedNote = {
+				path: activeView.file.path,
+				content: activeView.editor.getValue(),
+				displayName: activeView.file.basename,
+			};
+			return { ...this.cachedNote, focused: true };
+		}
+		return this.cachedNote ? { ...this.cachedNote, focused: false } : null;
+	}
+
+	private parseNote(note: CachedNote): ParsedItem[] {
+		return this.parser.parse(
+			note.path,
+			note.content,
+			this.plugin.settings.customTypes
+		);
+	}
+
+	/** Sums up what note mode shows above the sections */
+	private getChromeSignature(note: ShownNote, items: ParsedItem[]): string {
+		const colors = new Set<string>();
+		for (const item of items) {
+			const key = getColorKey(item);
+			if (key) colors.add(key);
+		}
+		return JSON.stringify([
+			note.path,
+			note.displayName,
+			note.focused,
+			items.length > 0,
+			[...colors],
+			[...collectTags(items).keys()],
+		]);
+	}
+
+	/**
+	 * Run a render without losing the scroll position (while the same note,
+	 * or the vault, is shown) or the focus and caret of the search box.
+	 */
+	private keepViewState(render: () => void): void {
+		const { contentEl } = this;
+		const location = this.location;
+		const scrollTop = contentEl.scrollTop;
+		const search = this.getSearchInput();
+		const caret =
+			search && search === document.activeElement
+				? { start: search.selectionStart, end: search.selectionEnd }
+				: null;
+
+		render();
+
+		if (this.location === location) contentEl.scrollTop = scrollTop;
+		const input = this.getSearchInput();
+		if (caret && input && input !== document.activeElement) {
+			input.focus();
+			input.setSelectionRange(caret.start, caret.end);
+		}
+		this.updateVirtualLists();
+		if (this.plugin.settings.followCursor) this.followCursor();
+	}
+
+	private getSearchInput(): HTMLInputElement | null {
+		return this.contentEl.querySelector<HTMLInputElement>(
+			".highlights-sidebar-search-input"
+		);
+	}
+
+	private updateVirtualLists(): void {
+		for (const list of this.virtualLists) list.update();
+	}
+
+	private renderVaultContent(container: HTMLElement): void {
+		// Kick off the first scan; we re-render once it finishes
+		if (this.vaultNotes === null) {
+			if (this.vaultError === null) this.scanVault();
+		} else {
+			this.updateActiveNoteInVault();
+		}
+
+		const header = container.createDiv({
+			cls: "highlights-sidebar-note-header",
+		});
+		header.createSpan({
+			text: "All notes",
+			cls: "highlights-sidebar-note-title",
+		});
+		if (this.vaultNotes) {
+			const total = this.vaultNotes.reduce(
+				(sum, note) => sum + note.items.length,
+				0
+			);
+			header.createSpan({
+				text: `${total} in ${this.vaultNotes.length} notes`,
+				cls: "highlights-sidebar-note-status",
+			});
+		}
+
+		const rescanBtn = header.createSpan({
+			cls: "highlights-sidebar-export-btn",
+			attr: {
+				"aria-label": "Rescan vault",
+				title: "Rescan vault",
+			},
+		});
+		setIcon(rescanBtn, "refresh-cw");
+		rescanBtn.addEventListener("click", () => {
+			this.invalidateVault();
+			this.renderContent();
+		});
+
+		this.renderModeButton(header);
+
+		if (this.vaultError !== null) {
+			container.createEl("p", {
+				text: `Couldn't scan the vault: ${this.vaultError}`,
+				cls: "highlights-sidebar-empty highlights-sidebar-error",
+			});
+			return;
+		}
+		if (this.vaultNotes === null) {
+			container.createEl("p", {
+				text: "Scanning vault…",
+				cls: "highlights-sidebar-empty",
+			});
+			return;
+		}
+
+		const notes = this.vaultNotes;
+		this.renderSearchBar(container, () =>
+			this.keepViewState(() =>
+				this.renderVaultSections(sectionsContainer, notes)
+			)
+		);
+		this.renderToggleBar(container);
+		const vaultItems = notes.flatMap((note) => note.items);
+		this.renderColorBar(container, vaultItems);
+		this.renderTagBar(container, vaultItems);
+
+		const sectionsContainer = container.createDiv({
+			cls: "highlights-sidebar-sections",
+		});
+		this.renderVaultSections(sectionsContainer, notes);
+	}
+
+	/** Drop cached vault results so the next vault-mode render rescans */
+	invalidateVault(): void {
+		this.vaultNotes = null;
+		this.vaultError = null;
+	}
+
+	private renderHeadingButton(header: HTMLElement): void {
+		const { settings } = this.plugin;
+		const grouped = settings.groupBy === "heading";
+		const label = grouped ? "Group by type" : "Group by heading";
+		const headingBtn = header.createSpan({
+			cls: `highlights-sidebar-export-btn ${grouped ? "is-active" : ""}`,
+			attr: { "aria-label": label, title: label },
+		});
+		setIcon(headingBtn, "list-tree");
+		headingBtn.addEventListener("click", () => {
+			settings.groupBy = grouped ? "type" : "heading";
+			this.plugin.saveSettings();
+			this.renderContent();
+		});
+	}
+
+	private renderFollowButton(header: HTMLElement): void {
+		const following = this.plugin.settings.followCursor;
+		const label = following
+			? "Stop following the cursor"
+			: "Follow the cursor";
+		const followBtn = header.createSpan({
+			cls: `highlights-sidebar-export-btn ${following ? "is-active" : ""}`,
+			attr: { "aria-label": label, title: label },
+		});
+		setIcon(followBtn, following ? "locate-fixed" : "locate");
+		followBtn.addEventListener("click", () => {
+			this.plugin.settings.followCursor = !following;
+			this.plugin.saveSettings();
+			this.renderContent();
+		});
+	}
+
+	private renderModeButton(header: HTMLElement): void {
+		const isVault = this.plugin.settings.viewMode === "vault";
+		const label = isVault ? "Show active note only" : "Show all notes";
+		const modeBtn = header.createSpan({
+			cls: "highlights-sidebar-export-btn",
+			attr: { "aria-label": label, title: label },
+		});
+		setIcon(modeBtn, isVault ? "file-text" : "library");
+		modeBtn.addEventListener("click", () => {
+			this.plugin.settings.viewMode = isVault ? "note" : "vault";
+			this.plugin.saveSettings();
+			this.renderContent();
+		});
+	}
+
+	private renderSearchBar(container: HTMLElement, onChange: () => void): void {
+		const searchContainer = container.createDiv({
+			cls: "highlights-sidebar-search",
+		});
+
+		const searchIcon = searchContainer.createSpan({
+			cls: "highlights-sidebar-search-icon",
+		});
+		setIcon(searchIcon, "search");
+
+		const searchInput = searchContainer.createEl("input", {
+			cls: "highlights-sidebar-search-input",
+			attr: {
+				type: "text",
+				placeholder: "Filter items…",
+				spellcheck: "false",
+			},
+		});
+		const showError = () => {
+			const { error } = this.query;
+			searchInput.toggleClass("is-invalid", error !== null);
+			searchInput.title = error ?? SEARCH_HELP;
+		};
+		searchInput.value = this.searchQuery;
+		showError();
+		searchInput.addEventListener("input", () => {
+			this.setSearchQuery(searchInput.value);
+			showError();
+			onChange();
+		});
+
+		// Clear button
+		if (this.searchQuery.length > 0) {
+			const clearBtn = searchContainer.createSpan({
+				cls: "highlights-sidebar-search-clear",
+			});
+			setIcon(clearBtn, "x");
+			clearBtn.addEventListener("click", () => {
+				this.setSearchQuery("");
+				searchInput.value = "";
+				showError();
+				onChange();
+			});
+		}
+
+		const savedBtn = searchContainer.createSpan({
+			cls: "highlights-sidebar-search-clear",
+			attr: { "aria-label": "Saved searches", title: "Saved searches" },
+		});
+		setIcon(savedBtn, "bookmark");
+		savedBtn.addEventListener("click", (e: MouseEvent) =>
+			this.showSavedSearches(e)
+		);
+	}
+
+	private setSearchQuery(value: string): void {
+		this.searchQuery = value;
+		this.query = parseSearchQuery(value);
+	}
+
+	/** Menu to apply, save or remove saved searches */
+	private showSavedSearches(e: MouseEvent): void {
+		const { settings } = this.plugin;
+		const current = this.searchQuery.trim();
+		const saved = settings.savedSearches.find(
+			(search) => search.query === current
+		);
+		const menu = new Menu();
+
+		for (const search of settings.savedSearches) {
+			menu.addItem((item) => {
+				item.setTitle(search.name || search.query);
+				item.setChecked(search === saved);
+				item.onClick(() => {
+					this.setSearchQuery(search.query);
+					this.renderContent();
+				});
+			});
+		}
+		if (settings.savedSearches.length > 0) menu.addSeparator();
+
+		if (saved) {
+			menu.addItem((item) => {
+				item.setTitle("Remove saved search");
+				item.setIcon("trash");
+				item.onClick(async () => {
+					settings.savedSearches.remove(saved);
+					await this.plugin.saveSettings();
+				});
+			});
+		} else {
+			menu.addItem((item) => {
+				item.setTitle("Save current search");
+				item.setIcon("bookmark-plus");
+				item.setDisabled(current.length === 0);
+				item.onClick(async () => {
+					settings.savedSearches.push({
+						name: current,
+						query: current,
+					});
+					await this.plugin.saveSettings();
+					new Notice("Search saved; rename it in the plugin settings");
+				});
+			});
+		}
+
+		menu.showAtMouseEvent(e);
+	}
+
+	private renderToggleBar(container: HTMLElement): void {
+		const toggleBar = container.createDiv({
+			cls: "highlights-sidebar-toggle-bar",
+		});
+
+		const sectionMeta = getSectionMeta(this.plugin.settings);
+		for (const sec of sectionMeta) {
+			const visible = this.isSectionVisible(sec.type);
+			const toggle = toggleBar.createDiv({
+				cls: `highlights-sidebar-toggle-btn ${visible ? "is-active" : ""}`,
+				attr: {
+					"aria-label": `${visible ? "Hide" : "Show"} ${sec.label}`,
+					title: `${visible ? "Hide" : "Show"} ${sec.label}`,
+				},
+			});
+			const toggleIconEl = toggle.createSpan({
+				cls: "highlights-sidebar-toggle-icon",
+			});
+			setIcon(toggleIconEl, sec.icon);
+			toggle.createSpan({
+				text: sec.label,
+				cls: "highlights-sidebar-toggle-label",
+			});
+
+			toggle.addEventListener("click", () => {
+				this.toggleSectionVisibility(sec.type);
+				this.renderContent();
+			});
+
+			// Right-click for context menu
+			toggle.addEventListener("contextmenu", (e: MouseEvent) => {
+				e.preventDefault();
+				const menu = new Menu();
+				for (const s of sectionMeta) {
+					const sVisible = this.isSectionVisible(s.type);
+					menu.addItem((item) => {
+						item.setTitle(
+							`${sVisible ? "Hide" : "Show"} ${s.label}`
+						);
+						item.setIcon(sVisible ? "eye-off" : "eye");
+						item.onClick(() => {
+							this.toggleSectionVisibility(s.type);
+							this.renderContent();
+						});
+					});
+				}
+				menu.addSeparator();
+				menu.addItem((item) => {
+					item.setTitle("Show all sections");
+					item.setIcon("eye");
+					item.onClick(() => {
+						this.plugin.settings.showHighlights = true;
+						this.plugin.settings.showComments = true;
+						this.plugin.settings.showFootnotes = true;
+						this.plugin.settings.showSuggestions = true;
+						for (const custom of this.plugin.settings.customTypes) {
+							custom.visible = true;
+						}
+						this.plugin.saveSettings();
+						this.renderContent();
+					});
+				});
+				menu.showAtMouseEvent(e);
+			});
+		}
+	}
+
+	private matchesFilters(item: ParsedItem): boolean {
+		if (this.colorFilter !== null && getColorKey(item) !== this.colorFilter) {
+			return false;
+		}
+		if (this.tagFilter !== null && !hasTag(item.tags, this.tagFilter)) {
+			return false;
+		}
+		if (this.plugin.settings.hideResolved && this.resolvedItems.has(item)) {
+			return false;
+		}
+		return matchesSearchQuery(item, this.query, this.plugin.settings);
+	}
+
+	private renderSections(
+		container: HTMLElement,
+		allItems: ParsedItem[],
+		notePath: string
+	): void {
 		container.empty();
-		container.addClass("highlights-sidebar");
+		this.virtualLists = [];
+		this.prepareRows([{ items: allItems, notePath }]);
+
+		// Filter by search query and color
+		const filteredItems = allItems.filter((item) =>
+			this.matchesFilters(item)
+		);
+
+		if (
+			filteredItems.length === 0 &&
+			allItems.length === 0
+		) {
+			container.createEl("p", {
+				text: "No highlights, comments, or footnotes found.",
+				cls: "highlights-sidebar-empty",
+			});
+			return;
+		}
+
+		if (filteredItems.length === 0) {
+			container.createEl("p", {
+				text: "No matching items.",
+				cls: "highlights-sidebar-empty",
+			});
+			return;
+		}
+
+		if (this.plugin.settings.groupBy === "color") {
+			this.renderColorGroups(
+				container,
+				filteredItems.filter((item) => this.isSectionVisible(item.type)),
+				notePath
+			);
+			return;
+		}
+
+		if (this.plugin.settings.groupBy === "heading") {
+			this.renderHeadingGroups(
+				container,
+				filteredItems.filter((item) => this.isSectionVisible(item.type)),
+				notePath
+			);
+			return;
+		}
+
+		const groups = new Map<ItemType, ParsedItem[]>();
+		for (const item of filteredItems) {
+			groups.set(item.type, [...(groups.get(item.type) ?? []), item]);
+		}
+
+		for (const sec of getSectionMeta(this.plugin.settings)) {
+			if (!this.isSectionVisible(sec.type)) continue;
+
+			const groupItems = groups.get(sec.type) ?? [];
+			if (groupItems.length === 0) continue;
+
+			// Apply sort; replies stay under the comment they answer
+			const sortOrder =
+				this.plugin.settings.sectionSorts[sec.type] ||
+				this.plugin.settings.defaultSort;
+			let sortedItems = sortItems(groupItems, sortOrder);
+			if (sec.type === "comment") sortedItems = orderThreads(sortedItems);
+
+			const section = container.createDiv({
+				cls: "highlights-sidebar-section",
+			});
+
+			// Collapsible header
+			const header = section.createDiv({
+				cls: "highlights-sidebar-header",
+			});
+
+			const collapsed =
+				this.plugin.settings.sectionsCollapsed[sec.type] ?? false;
+
+			const chevron = header.createSpan({
+				cls: `highlights-sidebar-chevron ${collapsed ? "is-collapsed" : ""}`,
+			});
+			setIcon(chevron, collapsed ? "chevron-right" : "chevron-down");
+
+			const headerIcon = header.createSpan({
+				cls: "highlights-sidebar-header-icon",
+			});
+			setIcon(headerIcon, sec.icon);
+			if (sec.color) headerIcon.style.color = sec.color;
+
+			header.createSpan({
+				text: `${sec.label} (${groupItems.length})`,
+				cls: "highlights-sidebar-header-text",
+			});
+
+			// Sort button
+			const sortBtn = header.createSpan({
+				cls: "highlights-sidebar-sort-btn",
+				attr: {
+					"aria-label": `Sort: ${SORT_LABELS[sortOrder]}`,
+					title: `Sort: ${SORT_LABELS[sortOrder]}`,
+				},
+			});
+			setIcon(sortBtn, this.getSortIcon(sortOrder));
+			sortBtn.addEventListener("click", (e: MouseEvent) => {
+				e.stopPropagation();
+				this.showSortMenu(e, sec.type);
+			});
+
+			const listContainer = section.createDiv({
+				cls: "highlights-sidebar-list",
+			});
+			listContainer.style.display = collapsed ? "none" : "block";
+
+			header.addEventListener("click", () => {
+				const isNowCollapsed =
+					!this.plugin.settings.sectionsCollapsed[sec.type];
+				this.plugin.settings.sectionsCollapsed[sec.type] =
+					isNowCollapsed;
+				this.plugin.saveSettings();
+
+				listContainer.style.display = isNowCollapsed
+					? "none"
+					: "block";
+				this.updateVirtualLists();
+				chevron.empty();
+				setIcon(
+					chevron,
+					isNowCollapsed ? "chevron-right" : "chevron-down"
+				);
+				if (isNowCollapsed) {
+					chevron.addClass("is-collapsed");
+				} else {
+					chevron.removeClass("is-collapsed");
+				}
+			});
+
+			// Right-click header for context menu
+			header.addEventListener("contextmenu", (e: MouseEvent) => {
+				e.preventDefault();
+				const menu = new Menu();
+
+				// Sort options (flat)
+				for (const order of SORT_CYCLE) {
+					menu.addItem((menuItem) => {
+						menuItem.setTitle(SORT_LABELS[order]);
+						if (order === sortOrder) {
+							menuItem.setIcon("check");
+						}
+						menuItem.onClick(() => {
+							this.plugin.settings.sectionSorts[sec.type] =
+								order;
+							this.plugin.saveSettings();
+							this.renderContent();
+						});
+					});
+				}
+
+				menu.addSeparator();
+
+				// Bulk CriticMarkup actions on the items listed in this section
+				if (sec.type === "suggestion") {
+					menu.addItem((menuItem) => {
+						menuItem.setTitle("Accept all suggestions");
+						menuItem.setIcon("check-check");
+						menuItem.onClick(() => {
+							this.applySuggestions(sortedItems, notePath, true);
+						});
+					});
+					menu.addItem((menuItem) => {
+						menuItem.setTitle("Reject all suggestions");
+						menuItem.setIcon("x");
+						menuItem.onClick(() => {
+							this.applySuggestions(sortedItems, notePath, false);
+						});
+					});
+					menu.addSeparator();
+				}
+
+				if (sec.type === "comment") {
+					const { hideResolved } = this.plugin.settings;
+					menu.addItem((menuItem) => {
+						menuItem.setTitle(
+							hideResolved
+								? "Show resolved threads"
+								: "Hide resolved threads"
+						);
+						menuItem.setIcon(hideResolved ? "eye" : "eye-off");
+						menuItem.onClick(async () => {
+							this.plugin.settings.hideResolved = !hideResolved;
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+						});
+					});
+					menu.addSeparator();
+				}
+
+				// Hide this section
+				menu.addItem((menuItem) => {
+					menuItem.setTitle(`Hide ${sec.label}`);
+					menuItem.setIcon("eye-off");
+					menuItem.onClick(() => {
+						this.toggleSectionVisibility(sec.type);
+						this.renderContent();
+					});
+				});
 
-		// Apply font-size from settings
-		container.style.fontSize = `${this.plugin.settings.fontSize}px`;
+				menu.showAtMouseEvent(e);
+			});
 
-		const activeView =
-			this.app.workspace.getActiveViewOfType(MarkdownView);
-		
-		let content: string;
-		let notePath: string;
-		let displayName: string;
+			this.renderRows(listContainer, sortedItems, notePath);
+		}
+	}
 
-		if (activeView && activeView.file) {
-			// Update cache with current active note
-			content = activeView.editor.getValue();
-			notePath = activeView.file.path;
-			displayName = activeView.file.basename;
-			this.cachedNote = { path: notePath, content, displayName };
-		} else if (this.cachedNote) {
-			// Use cached note when no markdown view is active
-			content = this.cachedNote.content;
-			notePath = this.cachedNote.path;
-			displayName = this.cachedNote.displayName;
-		} else {
-			// No active view and no cache
-			container.createEl("p", {
-				text: "Open a note to see its highlights, comments, and footnotes.",
-				cls: "highlights-sidebar-empty",
-			});
+	/**
+	 * Key every item for row reuse and drop rows whose item is gone. Keys
+	 * leave out positions, so rows survive edits that only move items.
+	 */
+	private prepareRows(
+		notes: { items: ParsedItem[]; notePath: string }[]
+	): void {
+		const { settings } = this.plugin;
+		const { contextMode } = settings;
+		const contextAmount =
+			contextMode === "characters"
+				? settings.contextChars
+				: settings.contextSentences;
+		const rows = new Map<string, ItemRow>();
+		this.rowKeys = new Map();
+		this.itemContexts = new Map();
+		this.itemMatches = new Map();
+		this.replyItems = new Set();
+		this.resolvedItems = new Set();
+		for (const { items, notePath } of notes) {
+			for (const { root, replies } of buildThreads(items)) {
+				replies.forEach((reply) => this.replyItems.add(reply));
+				if (root.thread?.resolved) {
+					this.resolvedItems.add(root);
+					replies.forEach((reply) => this.resolvedItems.add(reply));
+				}
+			}
+
+			// Context comes from the shown note's text, so only in note mode
+			const lines =
+				settings.viewMode === "note"
+					? this.getNoteText(notePath)?.lines
+					: undefined;
+			const seen = new Map<string, number>();
+			for (const item of items) {
+				const refs = (item.references ?? []).map(
+					(ref) => `${ref.line}:${ref.ch}`
+				);
+				const context =
+					lines && contextMode !== "off"
+						? getItemContext(lines, item, contextMode, contextAmount)
+						: null;
+				if (context) this.itemContexts.set(item, context);
+				const matches = settings.renderMarkdown
+					? []
+					: getSearchMatches(item.text, this.query);
+				if (matches.length > 0) this.itemMatches.set(item, matches);
+
+				const base = [
+					notePath,
+					item.type,
+					item.source,
+					item.footnoteProblem ?? "",
+					refs.join(","),
+					context ? `${context.before}\u0000${context.after}` : "",
+					matches.join(" "),
+					this.replyItems.has(item) ? "reply" : "",
+					this.resolvedItems.has(item) ? "resolved" : "",
+					item.tags?.join(" ") ?? "",
+				].join("\u0000");
+				const n = seen.get(base) ?? 0;
+				seen.set(base, n + 1);
+
+				const key = `${base}\u0000${n}`;
+				this.rowKeys.set(item, key);
+				const row = this.rows.get(key);
+				if (row) rows.set(key, row);
+			}
+		}
+		for (const [key, row] of this.rows) {
+			if (!rows.has(key)) this.releaseRow(row);
+		}
+		this.rows = rows;
+	}
+
+	/** Render a list's rows, only the visible ones if the list is long */
+	private renderRows(
+		list: HTMLElement,
+		items: ParsedItem[],
+		notePath: string
+	): void {
+		if (items.length < VIRTUAL_LIST_THRESHOLD) {
+			for (const item of items) this.renderItemRow(list, item, notePath);
 			return;
 		}
+		this.virtualLists.push(
+			new VirtualList(list, this.contentEl, items, (parent, item) =>
+				this.renderItemRow(parent, item, notePath)
+			)
+		);
+	}
 
-		const allItems = parseContent(content);
+	private renderItemRow(
+		container: HTMLElement,
+		item: ParsedItem,
+		notePath: string
+	): HTMLElement {
+		const key = this.rowKeys.get(item);
+		const cached = key === undefined ? undefined : this.rows.get(key);
+		if (cached) {
+			cached.item = item;
+			cached.notePath = notePath;
+			cached.lineEl.setText(`${item.line + 1}`);
+			container.appendChild(cached.el);
+			return cached.el;
+		}
 
-		// ── Note title header ──────────────────────────────────────────────
-		const noteHeader = container.createDiv({
-			cls: "highlights-sidebar-note-header",
+		const el = container.createDiv({
+			cls: `highlights-sidebar-item highlights-sidebar-item--${item.type}`,
 		});
-		noteHeader.createSpan({
-			text: displayName,
-			cls: "highlights-sidebar-note-title",
+
+		const custom = isCustomType(item.type)
+			? this.getCustomType(item.type)
+			: undefined;
+		if (custom) {
+			el.addClass("highlights-sidebar-item--custom");
+			if (custom.color) el.style.borderLeftColor = custom.color;
+		}
+
+		// Line number on the LEFT
+		const lineEl = el.createSpan({
+			text: `${item.line + 1}`,
+			cls: "highlights-sidebar-item-line",
 		});
-		// Show indicator if viewing cached (non-active) note
-		if (!activeView || !activeView.file || activeView.file.path !== notePath) {
-			noteHeader.createSpan({
-				text: "(not focused)",
-				cls: "highlights-sidebar-note-status",
-			});
+		const row: ItemRow = { el, lineEl, item, notePath };
+		if (key !== undefined) this.rows.set(key, row);
+
+		if (getColorKey(item)) {
+			createSwatch(el, item);
 		}
 
-		// Export button
-		if (allItems.length > 0) {
-			const exportBtn = noteHeader.createSpan({
-				cls: "highlights-sidebar-export-btn",
-				attr: {
-					"aria-label": "Export annotations to markdown",
-					title: "Export annotations to markdown",
-				},
+		const textEl = el.createSpan({ cls: "highlights-sidebar-item-text" });
+		const context = this.itemContexts.get(item);
+		if (context) {
+			textEl.addClass("has-context");
+			textEl.createSpan({
+				text: context.before,
+				cls: "highlights-sidebar-item-context",
 			});
-			setIcon(exportBtn, "file-output");
-			exportBtn.addEventListener("click", () => {
-				this.exportAnnotations(displayName, notePath, allItems);
+			this.renderItemText(
+				textEl.createSpan({ cls: "highlights-sidebar-item-match" }),
+				row
+			);
+			textEl.createSpan({
+				text: context.after,
+				cls: "highlights-sidebar-item-context",
 			});
+		} else {
+			this.renderItemText(textEl, row);
 		}
 
-		// ── Search bar ─────────────────────────────────────────────────────
-		const searchContainer = container.createDiv({
-			cls: "highlights-sidebar-search",
+		if (item.type === "footnote") {
+			this.renderFootnoteDetails(row);
+		}
+
+		if (item.suggestion) {
+			this.renderSuggestionActions(row);
+		}
+
+		if (item.thread) {
+			this.renderThreadDetails(row);
+		}
+
+		if (item.tags) {
+			this.renderTagChips(row);
+		}
+
+		// Listeners read the row's current item, which moves as the note changes
+		el.addEventListener("click", () => {
+			this.scrollToItem(row.item, row.notePath);
 		});
 
-		const searchIcon = searchContainer.createSpan({
-			cls: "highlights-sidebar-search-icon",
+		el.addEventListener("contextmenu", (e: MouseEvent) => {
+			e.preventDefault();
+			this.showItemMenu(e, row.item, row.notePath, textEl);
 		});
-		setIcon(searchIcon, "search");
 
-		const searchInput = searchContainer.createEl("input", {
-			cls: "highlights-sidebar-search-input",
-			attr: {
-				type: "text",
-				placeholder: "Filter items…",
-				spellcheck: "false",
-			},
+		el.addEventListener("mouseenter", () => this.showPreview(row));
+
+		if (item.type === "comment") {
+			el.addEventListener("dblclick", (e: MouseEvent) => {
+				e.preventDefault();
+				this.startInlineEdit(textEl, row.item, row.notePath);
+			});
+		}
+
+		return el;
+	}
+
+	// ── Row actions ────────────────────────────────────────────────────────
+
+	private showItemMenu(
+		e: MouseEvent,
+		item: ParsedItem,
+		notePath: string,
+		textEl: HTMLElement
+	): void {
+		const menu = new Menu();
+
+		menu.addItem((menuItem) => {
+			menuItem.setTitle("Go to annotation");
+			menuItem.setIcon("locate");
+			menuItem.onClick(() => this.scrollToItem(item, notePath));
 		});
-		searchInput.value = this.searchQuery;
-		searchInput.addEventListener("input", () => {
-			this.searchQuery = searchInput.value;
-			this.renderSections(sectionsContainer, allItems);
+		menu.addItem((menuItem) => {
+			menuItem.setTitle("Copy text");
+			menuItem.setIcon("copy");
+			menuItem.onClick(() => {
+				navigator.clipboard.writeText(item.text);
+			});
+		});
+		menu.addItem((menuItem) => {
+			menuItem.setTitle("Copy link to annotation");
+			menuItem.setIcon("link");
+			menuItem.onClick(() => this.copyBlockLink(item, notePath));
 		});
 
-		// Clear button
-		if (this.searchQuery.length > 0) {
-			const clearBtn = searchContainer.createSpan({
-				cls: "highlights-sidebar-search-clear",
+		if (item.suggestion) {
+			menu.addSeparator();
+			menu.addItem((menuItem) => {
+				menuItem.setTitle("Accept suggestion");
+				menuItem.setIcon("check");
+				menuItem.onClick(() =>
+					this.applySuggestions([item], notePath, true)
+				);
 			});
-			setIcon(clearBtn, "x");
-			clearBtn.addEventListener("click", () => {
-				this.searchQuery = "";
-				searchInput.value = "";
-				this.renderSections(sectionsContainer, allItems);
+			menu.addItem((menuItem) => {
+				menuItem.setTitle("Reject suggestion");
+				menuItem.setIcon("x");
+				menuItem.onClick(() =>
+					this.applySuggestions([item], notePath, false)
+				);
+			});
+		} else if (item.type === "highlight") {
+			menu.addSeparator();
+			menu.addItem((menuItem) => {
+				menuItem.setTitle("Remove highlight");
+				menuItem.setIcon("eraser");
+				menuItem.onClick(() =>
+					this.applyEdits([{ item, text: item.text }], notePath)
+				);
+			});
+			menu.addItem((menuItem) => {
+				menuItem.setTitle("Convert to comment");
+				menuItem.setIcon("message-square");
+				menuItem.onClick(() =>
+					this.applyEdits(
+						[{ item, text: buildComment(item.text) }],
+						notePath
+					)
+				);
+			});
+		} else if (item.type === "comment") {
+			menu.addSeparator();
+			menu.addItem((menuItem) => {
+				menuItem.setTitle("Edit comment");
+				menuItem.setIcon("pencil");
+				menuItem.onClick(() =>
+					this.startInlineEdit(textEl, item, notePath)
+				);
 			});
+			menu.addItem((menuItem) => {
+				menuItem.setTitle("Delete comment");
+				menuItem.setIcon("trash");
+				menuItem.onClick(() =>
+					this.applyEdits([{ item, text: "" }], notePath)
+				);
+			});
+			if (item.thread) {
+				const resolved = this.resolvedItems.has(item);
+				menu.addSeparator();
+				menu.addItem((menuItem) => {
+					menuItem.setTitle("Reply");
+					menuItem.setIcon("reply");
+					menuItem.onClick(() => this.replyToComment(item, notePath));
+				});
+				menu.addItem((menuItem) => {
+					menuItem.setTitle(
+						resolved ? "Reopen thread" : "Resolve thread"
+					);
+					menuItem.setIcon(resolved ? "rotate-ccw" : "check");
+					menuItem.onClick(() => this.toggleResolved(item, notePath));
+				});
+			}
 		}
 
-		// ── Section visibility toggle bar ──────────────────────────────────
-		const toggleBar = container.createDiv({
-			cls: "highlights-sidebar-toggle-bar",
+		menu.showAtMouseEvent(e);
+	}
+
+	/** Add (or reuse) a `^block-id` for the item and copy a link to it */
+	private async copyBlockLink(
+		item: ParsedItem,
+		notePath: string
+	): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (!(file instanceof TFile)) return;
+		const id = (await ensureBlockIds(this.app, file, [item])).get(item);
+		if (!id) return;
+		await navigator.clipboard.writeText(`[[${file.basename}#^${id}]]`);
+		new Notice("Link to annotation copied");
+	}
+
+	/**
+	 * Swap a comment's text for a textarea. Enter (or leaving the field)
+	 * saves through the editor, Shift+Enter adds a line, Escape cancels.
+	 */
+	private startInlineEdit(
+		textEl: HTMLElement,
+		item: ParsedItem,
+		notePath: string
+	): void {
+		const input = createEl("textarea", {
+			cls: "highlights-sidebar-item-editor",
 		});
+		input.value = item.text;
+		input.rows = Math.min(6, item.text.split("\n").length);
+		textEl.replaceWith(input);
+		input.focus();
+		input.select();
+
+		let done = false;
+		const finish = (save: boolean) => {
+			if (done) return;
+			done = true;
+			input.replaceWith(textEl);
+			const text = input.value.trim();
+			if (save && text !== item.text) {
+				this.applyEdits(
+					[{ item, text: rewriteComment(item, text) }],
+					notePath
+				);
+			}
+		};
 
-		const sectionMeta: { type: ItemType; label: string; icon: string }[] =
-			[
-				{ type: "highlight", label: "Highlights", icon: "highlighter" },
-				{
-					type: "comment",
-					label: "Comments",
-					icon: "message-square",
-				},
-				{ type: "footnote", label: "Footnotes", icon: "footnote" },
-			];
+		input.addEventListener("click", (e: MouseEvent) => e.stopPropagation());
+		input.addEventListener("dblclick", (e: MouseEvent) =>
+			e.stopPropagation()
+		);
+		input.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.key === "Enter" && !e.shiftKey) {
+				e.preventDefault();
+				finish(true);
+			} else if (e.key === "Escape") {
+				e.preventDefault();
+				finish(false);
+			}
+		});
+		input.addEventListener("blur", () => finish(true));
+	}
 
-		for (const sec of sectionMeta) {
-			const visible = this.isSectionVisible(sec.type);
-			const toggle = toggleBar.createDiv({
-				cls: `highlights-sidebar-toggle-btn ${visible ? "is-active" : ""}`,
-				attr: {
-					"aria-label": `${visible ? "Hide" : "Show"} ${sec.label}`,
-					title: `${visible ? "Hide" : "Show"} ${sec.label}`,
-				},
+	/**
+	 * Fill `el` with the item's text: plain, or rendered as Markdown with
+	 * links that open (and preview) instead of jumping to the item.
+	 */
+	private renderItemText(el: HTMLElement, row: ItemRow): void {
+		const { item, notePath } = row;
+		const markdown =
+			this.plugin.settings.renderMarkdown &&
+			item.footnoteKind !== "reference";
+		if (!markdown) {
+			renderMatches(el, item.text, this.itemMatches.get(item) ?? null);
+			return;
+		}
+
+		// Footnote markers stay literal; `[^id]:` would render as a footnote
+		let prefix = "";
+		let suffix = "";
+		if (item.footnoteKind === "definition") {
+			prefix = `[^${item.footnoteId}]: `;
+		} else if (item.footnoteKind === "inline") {
+			prefix = "^[";
+			suffix = "]";
+		}
+		if (prefix) el.createSpan({ text: prefix });
+		const target = el.createSpan({
+			cls: "highlights-sidebar-item-markdown",
+		});
+		if (suffix) el.createSpan({ text: suffix });
+
+		row.component ??= this.addChild(new Component());
+		const text = item.text.slice(
+			prefix.length,
+			item.text.length - suffix.length
+		);
+		MarkdownRenderer.render(this.app, text, target, notePath, row.component)
+			.then(() => {
+				// A single paragraph stays inline with the rest of the row
+				const only = target.firstElementChild;
+				if (target.childElementCount === 1 && only?.tagName === "P") {
+					only.replaceWith(...Array.from(only.childNodes));
+				}
+			})
+			.catch(() => {
+				// Show the text as written rather than a blank row
+				target.empty();
+				target.setText(text);
 			});
-			const toggleIconEl = toggle.createSpan({
-				cls: "highlights-sidebar-toggle-icon",
+
+		el.addEventListener("click", (e: MouseEvent) => {
+			const link = (e.target as HTMLElement).closest("a:not(.tag)");
+			if (!link) return;
+			e.stopPropagation();
+			if (link.hasClass("internal-link")) {
+				e.preventDefault();
+				this.app.workspace.openLinkText(
+					link.getAttr("data-href") ?? link.getAttr("href") ?? "",
+					row.notePath,
+					Keymap.isModEvent(e)
+				);
+			}
+		});
+		el.addEventListener("mouseover", (e: MouseEvent) => {
+			const link = (e.target as HTMLElement).closest("a.internal-link");
+			if (!link) return;
+			this.app.workspace.trigger("hover-link", {
+				event: e,
+				source: VIEW_TYPE,
+				hoverParent: this,
+				targetEl: link,
+				linktext: link.getAttr("data-href") ?? link.getAttr("href"),
+				sourcePath: row.notePath,
 			});
-			setIcon(toggleIconEl, sec.icon);
-			toggle.createSpan({
-				text: sec.label,
-				cls: "highlights-sidebar-toggle-label",
+		});
+	}
+
+	/** Hover popover rendering the paragraph that holds the row's item */
+	private async showPreview(row: ItemRow): Promise<void> {
+		if (!this.plugin.settings.hoverPreview) return;
+		const { item, notePath } = row;
+		// Re-hovering a row keeps its popover; another row's is closed first
+		if (this.hoverPopover && this.previewTarget === row.el) return;
+		this.hoverPopover?.unload();
+
+		const popover = new HoverPopover(this, row.el, 500);
+		popover.hoverEl.addClass("highlights-sidebar-popover");
+		this.previewTarget = row.el;
+		popover.register(() => {
+			if (this.hoverPopover === popover) this.hoverPopover = null;
+			if (this.previewTarget === row.el) this.previewTarget = null;
+		});
+
+		try {
+			const lines = await this.getNoteLines(notePath);
+			if (this.hoverPopover !== popover) return;
+			if (!lines || item.endLine >= lines.length) {
+				popover.unload();
+				return;
+			}
+			const [first, last] = getParagraphRange(lines, item);
+			await MarkdownRenderer.render(
+				this.app,
+				lines.slice(first, last + 1).join("\n"),
+				popover.hoverEl.createDiv({
+					cls: "highlights-sidebar-popover-content markdown-rendered",
+				}),
+				notePath,
+				popover
+			);
+		} catch {
+			popover.unload();
+		}
+	}
+
+	/** Lines of a note: the shown note's text, or the file as last saved */
+	private async getNoteLines(notePath: string): Promise<string[] | null> {
+		const text = this.getNoteText(notePath);
+		if (text) return text.lines;
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (!(file instanceof TFile)) return null;
+		return (await this.app.vault.cachedRead(file)).split("\n");
+	}
+
+	/** Inline badge, problem flag and clickable reference locations */
+	private renderFootnoteDetails(row: ItemRow): void {
+		const { el, item } = row;
+		if (item.footnoteKind === "inline") {
+			el.createSpan({
+				text: "inline",
+				cls: "highlights-sidebar-item-badge",
 			});
+		}
 
-			toggle.addEventListener("click", () => {
-				this.toggleSectionVisibility(sec.type);
-				this.renderContent();
+		if (item.footnoteProblem) {
+			const message =
+				item.footnoteProblem === "orphan"
+					? "Never referenced in the note"
+					: "No matching footnote definition";
+			el.addClass(`is-${item.footnoteProblem}`);
+			const flag = el.createSpan({
+				cls: "highlights-sidebar-item-flag",
+				attr: { "aria-label": message, title: message },
 			});
+			setIcon(flag, "alert-triangle");
+		}
 
-			// Right-click for context menu
-			toggle.addEventListener("contextmenu", (e: MouseEvent) => {
+		if (item.references && item.references.length > 0) {
+			const refs = el.createSpan({
+				cls: "highlights-sidebar-item-refs",
+			});
+			for (const ref of item.references) {
+				const refEl = refs.createSpan({
+					text: `↩${ref.line + 1}`,
+					cls: "highlights-sidebar-item-ref",
+					attr: {
+						"aria-label": `Referenced on line ${ref.line + 1}`,
+						title: `Referenced on line ${ref.line + 1}`,
+					},
+				});
+				refEl.addEventListener("click", (e: MouseEvent) => {
+					e.stopPropagation();
+					this.scrollToItem(ref, row.notePath);
+				});
+			}
+		}
+	}
+
+	/**
+	 * A collapsible header plus item list whose collapse state lives in the
+	 * view only. Used for per-note groups (vault mode) and color groups.
+	 */
+	private renderCollapsibleGroup(
+		container: HTMLElement,
+		group: {
+			key: string;
+			label: string;
+			icon?: string;
+			swatch?: ParsedItem;
+			title?: string;
+			items: ParsedItem[];
+			/** Shown in the header; defaults to the number of `items` */
+			count?: number;
+			notePath: string;
+			onContextMenu?: (menu: Menu) => void;
+			/** Render nested groups below the group's own items */
+			children?: (list: HTMLElement) => void;
+		}
+	): void {
+		const section = container.createDiv({
+			cls: "highlights-sidebar-section",
+		});
+
+		const header = section.createDiv({
+			cls: "highlights-sidebar-header",
+		});
+
+		const collapsed = this.collapsedGroups.has(group.key);
+
+		const chevron = header.createSpan({
+			cls: `highlights-sidebar-chevron ${collapsed ? "is-collapsed" : ""}`,
+		});
+		setIcon(chevron, collapsed ? "chevron-right" : "chevron-down");
+
+		if (group.swatch) {
+			createSwatch(header, group.swatch);
+		} else if (group.icon) {
+			const headerIcon = header.createSpan({
+				cls: "highlights-sidebar-header-icon",
+			});
+			setIcon(headerIcon, group.icon);
+		}
+
+		header.createSpan({
+			text: `${group.label} (${group.count ?? group.items.length})`,
+			cls: "highlights-sidebar-header-text",
+			attr: group.title ? { title: group.title } : {},
+		});
+
+		const listContainer = section.createDiv({
+			cls: "highlights-sidebar-list",
+		});
+		listContainer.style.display = collapsed ? "none" : "block";
+
+		header.addEventListener("click", () => {
+			const isNowCollapsed = !this.collapsedGroups.has(group.key);
+			if (isNowCollapsed) {
+				this.collapsedGroups.add(group.key);
+			} else {
+				this.collapsedGroups.delete(group.key);
+			}
+
+			listContainer.style.display = isNowCollapsed ? "none" : "block";
+			this.updateVirtualLists();
+			chevron.empty();
+			setIcon(chevron, isNowCollapsed ? "chevron-right" : "chevron-down");
+			chevron.toggleClass("is-collapsed", isNowCollapsed);
+		});
+
+		const { onContextMenu } = group;
+		if (onContextMenu) {
+			header.addEventListener("contextmenu", (e: MouseEvent) => {
 				e.preventDefault();
 				const menu = new Menu();
-				for (const s of sectionMeta) {
-					const sVisible = this.isSectionVisible(s.type);
-					menu.addItem((item) => {
-						item.setTitle(
-							`${sVisible ? "Hide" : "Show"} ${s.label}`
-						);
-						item.setIcon(sVisible ? "eye-off" : "eye");
-						item.onClick(() => {
-							this.toggleSectionVisibility(s.type);
-							this.renderContent();
-						});
-					});
-				}
-				menu.addSeparator();
-				menu.addItem((item) => {
-					item.setTitle("Show all sections");
-					item.setIcon("eye");
-					item.onClick(() => {
-						this.plugin.settings.showHighlights = true;
-						this.plugin.settings.showComments = true;
-						this.plugin.settings.showFootnotes = true;
-						this.plugin.saveSettings();
-						this.renderContent();
-					});
-				});
+				onContextMenu(menu);
 				menu.showAtMouseEvent(e);
 			});
 		}
 
-		// ── Sections container ─────────────────────────────────────────────
-		const sectionsContainer = container.createDiv({
-			cls: "highlights-sidebar-sections",
-		});
-		this.renderSections(sectionsContainer, allItems);
+		this.renderRows(listContainer, group.items, group.notePath);
+		group.children?.(listContainer);
+	}
+
+	/** Group highlights by color, ordered like the configured categories */
+	private renderColorGroups(
+		container: HTMLElement,
+		items: ParsedItem[],
+		notePath: string
+	): void {
+		const { colorCategories, defaultSort } = this.plugin.settings;
+		const groups = new Map<string, ParsedItem[]>();
+		for (const item of items) {
+			const key = getColorKey(item) ?? "";
+			groups.set(key, [...(groups.get(key) ?? []), item]);
+		}
+
+		const rank = (key: string): number => {
+			if (key === "") return Number.MAX_SAFE_INTEGER;
+			const index = colorCategories.findIndex(
+				(c) => c.color.toLowerCase().replace(/\s+/g, "") === key
+			);
+			return index >= 0 ? index : colorCategories.length;
+		};
+		const keys = [...groups.keys()].sort(
+			(a, b) => rank(a) - rank(b) || a.localeCompare(b)
+		);
+
+		for (const key of keys) {
+			const groupItems = groups.get(key)!;
+			const first = groupItems[0];
+			this.renderCollapsibleGroup(container, {
+				key: `color:${key}`,
+				label:
+					key === ""
+						? "No color"
+						: getColorCategory(first, colorCategories) ?? key,
+				icon: "circle-dashed",
+				swatch: key === "" ? undefined : first,
+				items: sortItems(groupItems, defaultSort),
+				notePath,
+			});
+		}
 	}
 
-	private renderSections(
+	/** Nest items under the note's headings, as deep as the headings go */
+	private renderHeadingGroups(
 		container: HTMLElement,
-		allItems: ParsedItem[]
+		items: ParsedItem[],
+		notePath: string
 	): void {
-		container.empty();
-
-		// Filter by search query
-		const query = this.searchQuery.toLowerCase().trim();
-		const filteredItems =
-			query.length > 0
-				? allItems.filter((item) =>
-						item.text.toLowerCase().includes(query)
-					)
-				: allItems;
-
-		if (
-			filteredItems.length === 0 &&
-			allItems.length === 0
-		) {
-			container.createEl("p", {
-				text: "No highlights, comments, or footnotes found.",
-				cls: "highlights-sidebar-empty",
+		const root = groupByHeading(items, this.getHeadings(notePath));
+
+		if (root.items.length > 0) {
+			this.renderCollapsibleGroup(container, {
+				key: `heading:${notePath}:`,
+				label: NO_HEADING_LABEL,
+				icon: "file-text",
+				items: root.items,
+				notePath,
 			});
-			return;
 		}
 
-		if (filteredItems.length === 0 && query.length > 0) {
-			container.createEl("p", {
-				text: "No matching items.",
-				cls: "highlights-sidebar-empty",
+		const render = (parent: HTMLElement, group: HeadingGroup) => {
+			const heading = group.heading!;
+			// Sibling headings can share a text, so the line tells them apart
+			const path = [...group.path, heading.line].join("\u0000");
+			this.renderCollapsibleGroup(parent, {
+				key: `heading:${notePath}:${path}`,
+				label: heading.text || "(untitled)",
+				icon: `heading-${heading.level}`,
+				title: group.path.join(" › "),
+				items: group.items,
+				count: group.count,
+				notePath,
+				onContextMenu: (menu) => {
+					menu.addItem((menuItem) => {
+						menuItem.setTitle("Go to heading");
+						menuItem.setIcon("locate");
+						menuItem.onClick(() => {
+							const position = { line: heading.line, ch: 0 };
+							this.scrollToItem(
+								{ ...position, endLine: heading.line, endCh: 0 },
+								notePath
+							);
+						});
+					});
+				},
+				children: (list) => {
+					for (const child of group.children) render(list, child);
+				},
 			});
-			return;
+		};
+		for (const group of root.children) render(container, group);
+	}
+
+	/** Headings of the note shown, parsed from the same text as its items */
+	private getHeadings(notePath: string): NoteHeading[] {
+		const text = this.getNoteText(notePath);
+		if (!text) return [];
+		text.headings ??= parseHeadings(text.content);
+		return text.headings;
+	}
+
+	/** The text the shown note's items were parsed from, split into lines */
+	private getNoteText(notePath: string): NoteText | null {
+		const note = this.cachedNote;
+		if (!note || note.path !== notePath) return null;
+		if (this.noteText?.content !== note.content) {
+			this.noteText = {
+				content: note.content,
+				lines: note.content.split("\n"),
+				headings: null,
+			};
+		}
+		return this.noteText;
+	}
+
+	private renderColorBar(container: HTMLElement, items: ParsedItem[]): void {
+		const colored = new Map<string, ParsedItem>();
+		for (const item of items) {
+			const key = getColorKey(item);
+			if (key && !colored.has(key)) colored.set(key, item);
 		}
+		if (colored.size === 0) return;
 
-		const groups: Record<ItemType, ParsedItem[]> = {
-			highlight: [],
-			comment: [],
-			footnote: [],
-		};
+		const { settings } = this.plugin;
+		const colorBar = container.createDiv({
+			cls: "highlights-sidebar-toggle-bar highlights-sidebar-color-bar",
+		});
 
-		for (const item of filteredItems) {
-			groups[item.type].push(item);
+		if (settings.viewMode === "note") {
+			const grouped = settings.groupBy === "color";
+			const groupBtn = colorBar.createDiv({
+				cls: `highlights-sidebar-toggle-btn ${grouped ? "is-active" : ""}`,
+				attr: {
+					"aria-label": grouped ? "Group by type" : "Group by color",
+					title: grouped ? "Group by type" : "Group by color",
+				},
+			});
+			const groupIcon = groupBtn.createSpan({
+				cls: "highlights-sidebar-toggle-icon",
+			});
+			setIcon(groupIcon, "palette");
+			groupBtn.addEventListener("click", () => {
+				settings.groupBy = grouped ? "type" : "color";
+				this.plugin.saveSettings();
+				this.renderContent();
+			});
 		}
 
-		const sectionMeta: { type: ItemType; label: string; icon: string }[] =
-			[
-				{ type: "highlight", label: "Highlights", icon: "highlighter" },
-				{
-					type: "comment",
-					label: "Comments",
-					icon: "message-square",
+		for (const [key, item] of colored) {
+			const active = this.colorFilter === key;
+			const label = getColorCategory(item, settings.colorCategories);
+			const chip = colorBar.createDiv({
+				cls: `highlights-sidebar-toggle-btn ${active ? "is-active" : ""}`,
+				attr: {
+					"aria-label": active
+						? "Show all colors"
+						: `Only show ${label ?? key}`,
+					title: active ? "Show all colors" : `Only show ${label ?? key}`,
 				},
-				{ type: "footnote", label: "Footnotes", icon: "footnote" },
-			];
+			});
+			createSwatch(chip, item);
+			if (label) {
+				chip.createSpan({
+					text: label,
+					cls: "highlights-sidebar-toggle-label",
+				});
+			}
+			chip.addEventListener("click", () => {
+				this.colorFilter = active ? null : key;
+				this.renderContent();
+			});
+		}
+	}
 
-		for (const sec of sectionMeta) {
-			if (!this.isSectionVisible(sec.type)) continue;
+	private renderTagBar(container: HTMLElement, items: ParsedItem[]): void {
+		const tags = collectTags(items);
+		// A filter on a tag that is gone would hide everything
+		if (this.tagFilter !== null && !tags.has(this.tagFilter)) {
+			this.tagFilter = null;
+		}
+		if (tags.size === 0) return;
 
-			const groupItems = groups[sec.type];
-			if (groupItems.length === 0) continue;
+		const tagBar = container.createDiv({
+			cls: "highlights-sidebar-toggle-bar highlights-sidebar-tag-bar",
+		});
+		for (const [key, tag] of tags) {
+			const active = this.tagFilter === key;
+			const chip = tagBar.createDiv({
+				text: tag,
+				cls: `highlights-sidebar-toggle-btn ${active ? "is-active" : ""}`,
+				attr: {
+					"aria-label": active ? "Show all tags" : `Only show ${tag}`,
+					title: active ? "Show all tags" : `Only show ${tag}`,
+				},
+			});
+			chip.addEventListener("click", () => this.toggleTagFilter(key));
+		}
+	}
 
-			// Apply sort
-			const sortOrder =
-				this.plugin.settings.sectionSorts[sec.type] ||
-				this.plugin.settings.defaultSort;
-			const sortedItems = sortItems(groupItems, sortOrder);
+	private toggleTagFilter(tag: string): void {
+		const key = tag.toLowerCase();
+		this.tagFilter = this.tagFilter === key ? null : key;
+		this.renderContent();
+	}
 
-			const section = container.createDiv({
-				cls: "highlights-sidebar-section",
+	/** A chip per tag, which filters the list to that tag when clicked */
+	private renderTagChips(row: ItemRow): void {
+		const tagsEl = row.el.createSpan({
+			cls: "highlights-sidebar-item-tags",
+		});
+		for (const tag of row.item.tags!) {
+			const chip = tagsEl.createSpan({
+				text: tag,
+				cls: "highlights-sidebar-item-tag",
+				attr: { title: `Filter by ${tag}` },
 			});
-
-			// Collapsible header
-			const header = section.createDiv({
-				cls: "highlights-sidebar-header",
+			chip.addEventListener("click", (e: MouseEvent) => {
+				e.stopPropagation();
+				this.toggleTagFilter(tag);
 			});
+		}
+	}
 
-			const collapsed =
-				this.plugin.settings.sectionsCollapsed[sec.type] ?? false;
+	/** Kind badge plus Accept / Reject buttons for a CriticMarkup row */
+	private renderSuggestionActions(row: ItemRow): void {
+		const { el } = row;
+		const suggestion = row.item.suggestion!;
+		el.addClass(`highlights-sidebar-item--${suggestion.kind}`);
+		el.createSpan({
+			text: suggestion.kind,
+			cls: "highlights-sidebar-item-badge",
+		});
 
-			const chevron = header.createSpan({
-				cls: `highlights-sidebar-chevron ${collapsed ? "is-collapsed" : ""}`,
+		const actions = el.createSpan({
+			cls: "highlights-sidebar-item-actions",
+		});
+		const addAction = (icon: string, label: string, accept: boolean) => {
+			const btn = actions.createSpan({
+				cls: "highlights-sidebar-item-action",
+				attr: { "aria-label": label, title: label },
 			});
-			setIcon(chevron, collapsed ? "chevron-right" : "chevron-down");
-
-			const headerIcon = header.createSpan({
-				cls: "highlights-sidebar-header-icon",
+			setIcon(btn, icon);
+			btn.addEventListener("click", (e: MouseEvent) => {
+				e.stopPropagation();
+				this.applySuggestions([row.item], row.notePath, accept);
 			});
-			setIcon(headerIcon, sec.icon);
+		};
+		addAction("check", "Accept", true);
+		addAction("x", "Reject", false);
+	}
 
-			header.createSpan({
-				text: `${sec.label} (${groupItems.length})`,
-				cls: "highlights-sidebar-header-text",
+	/** Author, date and reply/resolve actions of a review comment */
+	private renderThreadDetails(row: ItemRow): void {
+		const { el, item } = row;
+		const meta = item.thread!;
+		const isReply = this.replyItems.has(item);
+		el.toggleClass("is-reply", isReply);
+		el.toggleClass("is-resolved", this.resolvedItems.has(item));
+
+		const byline = [meta.author && `@${meta.author}`, meta.date]
+			.filter(Boolean)
+			.join(" · ");
+		if (byline) {
+			el.createSpan({
+				text: byline,
+				cls: "highlights-sidebar-item-byline",
+			});
+		}
+		if (meta.resolved && !isReply) {
+			const flag = el.createSpan({
+				cls: "highlights-sidebar-item-resolved",
+				attr: { "aria-label": "Resolved", title: "Resolved" },
 			});
+			setIcon(flag, "check-circle");
+		}
 
-			// Sort button
-			const sortBtn = header.createSpan({
-				cls: "highlights-sidebar-sort-btn",
-				attr: {
-					"aria-label": `Sort: ${SORT_LABELS[sortOrder]}`,
-					title: `Sort: ${SORT_LABELS[sortOrder]}`,
-				},
+		const actions = el.createSpan({
+			cls: "highlights-sidebar-item-actions",
+		});
+		const addAction = (icon: string, label: string, run: () => void) => {
+			const btn = actions.createSpan({
+				cls: "highlights-sidebar-item-action",
+				attr: { "aria-label": label, title: label },
 			});
-			setIcon(sortBtn, this.getSortIcon(sortOrder));
-			sortBtn.addEventListener("click", (e: MouseEvent) => {
+			setIcon(btn, icon);
+			btn.addEventListener("click", (e: MouseEvent) => {
 				e.stopPropagation();
-				this.showSortMenu(e, sec.type);
+				run();
 			});
+		};
+		addAction("reply", "Reply", () =>
+			this.replyToComment(row.item, row.notePath)
+		);
+		if (!isReply) {
+			addAction(
+				meta.resolved ? "rotate-ccw" : "check",
+				meta.resolved ? "Reopen thread" : "Resolve thread",
+				() => this.toggleResolved(row.item, row.notePath)
+			);
+		}
+	}
 
-			const listContainer = section.createDiv({
-				cls: "highlights-sidebar-list",
+	/** Ask for a reply and add it after the last comment of the thread */
+	private replyToComment(item: ParsedItem, notePath: string): void {
+		const id = item.thread?.id;
+		if (!id) return;
+		new AnnotationTextModal(this.app, "Reply", (text) => {
+			this.insertReply(id, text, notePath).catch((e) => {
+				new Notice(
+					`Couldn't add the reply: ${
+						e instanceof Error ? e.message : String(e)
+					}`
+				);
 			});
-			listContainer.style.display = collapsed ? "none" : "block";
+		}).open();
+	}
 
-			header.addEventListener("click", () => {
-				const isNowCollapsed =
-					!this.plugin.settings.sectionsCollapsed[sec.type];
-				this.plugin.settings.sectionsCollapsed[sec.type] =
-					isNowCollapsed;
-				this.plugin.saveSettings();
+	private async insertReply(
+		id: string,
+		text: string,
+		notePath: string
+	): Promise<void> {
+		const editor = await this.getEditor(notePath);
+		if (!editor) return;
+		const items = parseContent(
+			editor.getValue(),
+			this.plugin.settings.customTypes
+		);
+		const thread = findThread(items, id);
+		if (!thread) {
+			new Notice("The comment was removed from the note");
+			return;
+		}
+		const comments = [thread.root, ...thread.replies];
+		const last = sortItems(comments, "line-asc")[comments.length - 1];
+		const at = { line: last.endLine, ch: last.endCh };
+		const reply = buildReviewComment(
+			text,
+			nextCommentId(items),
+			this.plugin.settings.commentAuthor,
+			id
+		);
+		editor.replaceRange(` ${reply}`, at);
+		this.showItemAt(notePath, { line: at.line, ch: at.ch + 1 });
+	}
 
-				listContainer.style.display = isNowCollapsed
-					? "none"
-					: "block";
-				chevron.empty();
-				setIcon(
-					chevron,
-					isNowCollapsed ? "chevron-right" : "chevron-down"
-				);
-				if (isNowCollapsed) {
-					chevron.addClass("is-collapsed");
-				} else {
-					chevron.removeClass("is-collapsed");
-				}
-			});
+	/** Resolve the thread holding `item`, or reopen it if it is resolved */
+	private async toggleResolved(
+		item: ParsedItem,
+		notePath: string
+	): Promise<void> {
+		const id = item.thread?.id;
+		if (!id) return;
+		try {
+			const editor = await this.getEditor(notePath);
+			if (!editor) return;
+			const items = parseContent(
+				editor.getValue(),
+				this.plugin.settings.customTypes
+			);
+			const root = findThread(items, id)?.root;
+			if (!root?.thread) return;
+			const meta = { ...root.thread, resolved: !root.thread.resolved };
+			await this.applyEdits(
+				[{ item: root, text: rewriteComment(root, root.text, meta) }],
+				notePath
+			);
+		} catch (e) {
+			new Notice(
+				`Couldn't update the thread: ${
+					e instanceof Error ? e.message : String(e)
+				}`
+			);
+		}
+	}
 
-			// Right-click header for context menu
-			header.addEventListener("contextmenu", (e: MouseEvent) => {
-				e.preventDefault();
-				const menu = new Menu();
+	// ── Vault-wide mode ────────────────────────────────────────────────────
 
-				// Sort options (flat)
-				for (const order of SORT_CYCLE) {
+	private renderVaultSections(
+		container: HTMLElement,
+		notes: NoteAnnotations[]
+	): void {
+		container.empty();
+		this.virtualLists = [];
+		this.prepareRows(
+			notes.map((note) => ({ items: note.items, notePath: note.file.path }))
+		);
+
+		const filtering =
+			this.searchQuery.trim().length > 0 ||
+			this.colorFilter !== null ||
+			this.tagFilter !== null;
+		let shown = 0;
+
+		for (const note of notes) {
+			const items = sortItems(
+				note.items.filter(
+					(item) =>
+						this.isSectionVisible(item.type) &&
+						this.matchesFilters(item)
+				),
+				"line-asc"
+			);
+			if (items.length === 0) continue;
+			shown++;
+
+			this.renderCollapsibleGroup(container, {
+				key: `note:${note.file.path}`,
+				label: note.file.basename,
+				icon: "file-text",
+				title: note.file.path,
+				items,
+				notePath: note.file.path,
+				onContextMenu: (menu) => {
 					menu.addItem((menuItem) => {
-						menuItem.setTitle(SORT_LABELS[order]);
-						if (order === sortOrder) {
-							menuItem.setIcon("check");
-						}
+						menuItem.setTitle("Open note");
+						menuItem.setIcon("file-text");
 						menuItem.onClick(() => {
-							this.plugin.settings.sectionSorts[sec.type] =
-								order;
-							this.plugin.saveSettings();
-							this.renderContent();
+							this.app.workspace
+								.getLeaf(false)
+								.openFile(note.file);
 						});
 					});
-				}
-
-				menu.addSeparator();
-
-				// Hide this section
-				menu.addItem((menuItem) => {
-					menuItem.setTitle(`Hide ${sec.label}`);
-					menuItem.setIcon("eye-off");
-					menuItem.onClick(() => {
-						this.toggleSectionVisibility(sec.type);
-						this.renderContent();
+					menu.addSeparator();
+					menu.addItem((menuItem) => {
+						menuItem.setTitle("Collapse all notes");
+						menuItem.setIcon("chevrons-down-up");
+						menuItem.onClick(() => {
+							for (const n of notes) {
+								this.collapsedGroups.add(`note:${n.file.path}`);
+							}
+							this.keepViewState(() =>
+								this.renderVaultSections(container, notes)
+							);
+						});
 					});
-				});
+					menu.addItem((menuItem) => {
+						menuItem.setTitle("Expand all notes");
+						menuItem.setIcon("chevrons-up-down");
+						menuItem.onClick(() => {
+							this.collapsedGroups.clear();
+							this.keepViewState(() =>
+								this.renderVaultSections(container, notes)
+							);
+						});
+					});
+				},
+			});
+		}
 
-				menu.showAtMouseEvent(e);
+		if (shown === 0) {
+			container.createEl("p", {
+				text: filtering
+					? "No matching items."
+					: "No highlights, comments, or footnotes found in the vault.",
+				cls: "highlights-sidebar-empty",
 			});
+		}
+	}
 
-			for (const item of sortedItems) {
-				const row = listContainer.createDiv({
-					cls: `highlights-sidebar-item highlights-sidebar-item--${item.type}`,
-				});
+	/**
+	 * Parse every markdown file in the vault. Notes are ordered by
+	 * modification time so the most recently edited ones come first.
+	 */
+	private async scanVault(): Promise<void> {
+		if (this.vaultScanning) return;
+		this.vaultScanning = true;
+
+		try {
+			this.vaultNotes = await this.plugin.getVaultAnnotations();
+		} catch (e) {
+			this.vaultError = e instanceof Error ? e.message : String(e);
+		} finally {
+			this.vaultScanning = false;
+		}
 
-				// Line number on the LEFT
-				row.createSpan({
-					text: `${item.line + 1}`,
-					cls: "highlights-sidebar-item-line",
-				});
+		if (this.plugin.settings.viewMode === "vault") {
+			this.renderContent();
+		}
+	}
 
-				row.createSpan({
-					text: item.text,
-					cls: "highlights-sidebar-item-text",
-				});
+	/** Re-parse the note being edited so vault mode reflects unsaved edits */
+	private updateActiveNoteInVault(): void {
+		if (!this.vaultNotes) return;
+		const activeView =
+			this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView || !activeView.file) return;
 
-				row.addEventListener("click", () => {
-					this.scrollToItem(item);
-				});
+		const file = activeView.file;
+		const items = this.parser.parse(
+			file.path,
+			activeView.editor.getValue(),
+			this.plugin.settings.customTypes
+		);
+		const index = this.vaultNotes.findIndex(
+			(note) => note.file.path === file.path
+		);
+
+		if (index >= 0) {
+			if (items.length > 0) {
+				this.vaultNotes[index] = { file, items };
+			} else {
+				this.vaultNotes.splice(index, 1);
 			}
+		} else if (items.length > 0) {
+			this.vaultNotes.unshift({ file, items });
+		}
+	}
+
+	// ── Follow cursor ──────────────────────────────────────────────────────
+
+	/**
+	 * Mark the row of the annotation at (or nearest to) the editor cursor,
+	 * scroll to it when it changes, and show the heading the cursor is under.
+	 */
+	private followCursor(): void {
+		const { rendered } = this;
+		if (!this.plugin.settings.followCursor || !rendered) return;
+		const activeView =
+			this.app.workspace.getActiveViewOfType(MarkdownView);
+		const file = activeView?.file;
+		if (!activeView || !file || file.path !== rendered.notePath) return;
+		const cursor = activeView.editor.getCursor();
+
+		this.renderCurrentHeading(file, cursor.line);
+
+		const shown = rendered.items.filter(
+			(item) =>
+				this.isSectionVisible(item.type) && this.matchesFilters(item)
+		);
+		const item = findNearestItem(sortItems(shown, "line-asc"), cursor);
+		const key = item ? this.rowKeys.get(item) ?? null : null;
+		const changed = key !== this.currentRowKey;
+		this.currentRowKey = key;
+
+		this.contentEl
+			.querySelectorAll(".highlights-sidebar-item.is-current")
+			.forEach((el) => el.removeClass("is-current"));
+		if (!item || key === null) return;
+
+		if (changed) this.revealRow(item);
+		this.rows.get(key)?.el.addClass("is-current");
+	}
+
+	/** Scroll an item's row into view, rendering it first in a long list */
+	private revealRow(item: ParsedItem): HTMLElement | null {
+		const key = this.rowKeys.get(item);
+		if (key === undefined) return null;
+		const row = this.rows.get(key);
+		if (row?.el.isConnected) {
+			row.el.scrollIntoView({ block: "nearest" });
+		} else {
+			this.virtualLists.some((list) => list.reveal(item));
+		}
+		return this.rows.get(key)?.el ?? null;
+	}
+
+	/**
+	 * Bring the list up to date with the active note and point out the item
+	 * that starts at `position`, e.g. one the user just created.
+	 */
+	showItemAt(notePath: string, position: EditorPosition): void {
+		this.refresh();
+		const item = this.rendered?.items.find(
+			(candidate) =>
+				candidate.line === position.line && candidate.ch === position.ch
+		);
+		if (!item || this.rendered?.notePath !== notePath) return;
+		const el = this.revealRow(item);
+		if (!el) return;
+		el.addClass("is-new");
+		window.setTimeout(() => el.removeClass("is-new"), 1500);
+	}
+
+	/** Show the heading that `line` falls under */
+	private renderCurrentHeading(file: TFile, line: number): void {
+		const el = this.currentHeadingEl;
+		if (!el) return;
+
+		const headings = this.app.metadataCache.getFileCache(file)?.headings;
+		let current: HeadingCache | null = null;
+		for (const heading of headings ?? []) {
+			if (heading.position.start.line > line) break;
+			current = heading;
 		}
+		const previous = this.currentHeading;
+		this.currentHeading = current;
+		if (
+			previous?.heading === current?.heading &&
+			previous?.position.start.line === current?.position.start.line
+		) {
+			return;
+		}
+
+		el.empty();
+		if (!current) return;
+		const icon = el.createSpan({
+			cls: "highlights-sidebar-current-heading-icon",
+		});
+		setIcon(icon, "heading");
+		el.createSpan({
+			text: current.heading,
+			cls: "highlights-sidebar-current-heading-text",
+			attr: { title: current.heading },
+		});
 	}
 
 	// ── Sort menu ──────────────────────────────────────────────────────────
@@ -633,6 +5812,10 @@ class HighlightsSidebarView extends ItemView {
 				return this.plugin.settings.showComments;
 			case "footnote":
 				return this.plugin.settings.showFootnotes;
+			case "suggestion":
+				return this.plugin.settings.showSuggestions;
+			default:
+				return this.getCustomType(type)?.visible ?? false;
 		}
 	}
 
@@ -650,46 +5833,103 @@ class HighlightsSidebarView extends ItemView {
 				this.plugin.settings.showFootnotes =
 					!this.plugin.settings.showFootnotes;
 				break;
+			case "suggestion":
+				this.plugin.settings.showSuggestions =
+					!this.plugin.settings.showSuggestions;
+				break;
+			default: {
+				const custom = this.getCustomType(type);
+				if (custom) custom.visible = !custom.visible;
+				break;
+			}
+		}
+		this.plugin.saveSettings();
+	}
+
+	private getCustomType(type: CustomTypeId): CustomType | undefined {
+		return this.plugin.settings.customTypes.find((c) => c.id === type);
+	}
+
+	// ── Scroll-to-source ───────────────────────────────────────────────────
+
+	private async scrollToItem(
+		item: SourceRange,
+		notePath: string
+	): Promise<void> {
+		await revealItem(this.app, item, notePath);
+	}
+
+	// ── Editing the source ─────────────────────────────────────────────────
+
+	/** The editor showing `notePath`, opening the note if no pane has it */
+	private async getEditor(notePath: string): Promise<Editor | null> {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (!(file instanceof TFile)) return null;
+
+		let leaf = this.app.workspace
+			.getLeavesOfType("markdown")
+			.find(
+				(l) =>
+					l.view instanceof MarkdownView &&
+					l.view.file?.path === notePath
+			);
+		if (!leaf) {
+			leaf = this.app.workspace.getLeaf(false);
+			await leaf.openFile(file);
 		}
-		this.plugin.saveSettings();
+		return leaf.view instanceof MarkdownView ? leaf.view.editor : null;
 	}
 
-	// ── Scroll-to-source ───────────────────────────────────────────────────
-
-	private async scrollToItem(item: ParsedItem): Promise<void> {
-		// First, ensure the correct file is open
-		if (this.cachedNote) {
-			const file = this.app.vault.getAbstractFileByPath(this.cachedNote.path);
-			if (file instanceof TFile) {
-				// Open the file in the most recent leaf (don't create new tab)
-				await this.app.workspace.getLeaf(false).openFile(file);
+	/**
+	 * Replace each item's full match in one undoable transaction. Items whose
+	 * source no longer matches the editor are skipped with a notice.
+	 */
+	private async applyEdits(
+		edits: { item: ParsedItem; text: string }[],
+		notePath: string
+	): Promise<void> {
+		const editor = await this.getEditor(notePath);
+		if (!editor) return;
+
+		const changes: EditorChange[] = [];
+		let skipped = 0;
+		for (const { item, text } of edits) {
+			const from = { line: item.line, ch: item.ch };
+			const to = { line: item.endLine, ch: item.endCh };
+			if (editor.getRange(from, to) !== item.source) {
+				skipped++;
+				continue;
 			}
+			changes.push({ from, to, text });
 		}
 
-		const activeView =
-			this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) return;
-
-		const editor: Editor = activeView.editor;
-
-		// Reveal the target line
-		editor.setCursor({ line: item.line, ch: item.ch });
-		editor.scrollIntoView(
-			{
-				from: { line: item.line, ch: item.ch },
-				to: { line: item.line, ch: item.ch + item.matchLength },
-			},
-			true
-		);
+		if (changes.length > 0) {
+			editor.transaction({ changes });
+		}
+		if (skipped > 0) {
+			new Notice(
+				`${skipped} item${skipped > 1 ? "s" : ""} changed since the sidebar last refreshed and ${skipped > 1 ? "were" : "was"} skipped.`
+			);
+		}
+	}
 
-		// Select the match so it's visually obvious
-		editor.setSelection(
-			{ line: item.line, ch: item.ch },
-			{ line: item.line, ch: item.ch + item.matchLength }
+	/** Accept or reject CriticMarkup suggestions */
+	private applySuggestions(
+		items: ParsedItem[],
+		notePath: string,
+		accept: boolean
+	): Promise<void> {
+		return this.applyEdits(
+			items
+				.filter((item) => item.suggestion)
+				.map((item) => ({
+					item,
+					text: accept
+						? item.suggestion!.accepted
+						: item.suggestion!.rejected,
+				})),
+			notePath
 		);
-
-		// Make sure the editor pane is focused
-		activeView.editor.focus();
 	}
 
 	// ── Export annotations ─────────────────────────────────────────────────
@@ -699,88 +5939,194 @@ class HighlightsSidebarView extends ItemView {
 		notePath: string,
 		items: ParsedItem[]
 	): Promise<void> {
-		const { vault } = this.app;
+		try {
+			const { file, added, removed } = await writeExport(
+				this.app,
+				this.plugin.settings,
+				{
+					displayName,
+					path: notePath,
+					headings: this.getHeadings(notePath),
+				},
+				items
+			);
+			new Notice(
+				describeExportResult(file, items.length, added, removed),
+				added?.length || removed?.length ? 10000 : undefined
+			);
 
-		// Group items by type
-		const groups: Record<ItemType, ParsedItem[]> = {
-			highlight: [],
-			comment: [],
-			footnote: [],
-		};
-		for (const item of items) {
-			groups[item.type].push(item);
+			// Only markdown opens in an editor tab
+			if (file.extension === "md") {
+				await this.app.workspace.getLeaf("tab").openFile(file);
+			}
+		} catch (e) {
+			new Notice(
+				`Couldn't export the annotations: ${
+					e instanceof Error ? e.message : String(e)
+				}`
+			);
 		}
+	}
+}
 
-		// Generate markdown content
-		const lines: string[] = [];
-		lines.push(`# Annotations from [[${displayName}]]`);
-		lines.push("");
-		lines.push(`> Exported on ${new Date().toLocaleString()}`);
-		lines.push("");
+// ─── Prompts ─────────────────────────────────────────────────────────────────
 
-		const sourceLink = `[[${displayName}]]`;
+/** Asks for the text of a new comment or footnote */
+class AnnotationTextModal extends Modal {
+	private title: string;
+	private onSubmit: (text: string) => void;
 
-		// Highlights
-		if (groups.highlight.length > 0) {
-			lines.push("## Highlights");
-			lines.push("");
-			for (const item of sortItems(groups.highlight, "line-asc")) {
-				lines.push(`- ==${item.text}== *(line ${item.line + 1})*`);
-			}
-			lines.push("");
-		}
+	constructor(app: App, title: string, onSubmit: (text: string) => void) {
+		super(app);
+		this.title = title;
+		this.onSubmit = onSubmit;
+	}
 
-		// Comments
-		if (groups.comment.length > 0) {
-			lines.push("## Comments");
-			lines.push("");
-			for (const item of sortItems(groups.comment, "line-asc")) {
-				lines.push(`- ${item.text} *(line ${item.line + 1})*`);
-			}
-			lines.push("");
-		}
+	onOpen(): void {
+		this.titleEl.setText(this.title);
+		const input = this.contentEl.createEl("textarea", {
+			cls: "highlights-sidebar-prompt-input",
+			attr: { rows: "3" },
+		});
+		const submit = () => {
+			const text = input.value.trim();
+			if (!text) return;
+			this.close();
+			this.onSubmit(text);
+		};
 
-		// Footnotes
-		if (groups.footnote.length > 0) {
-			lines.push("## Footnotes");
-			lines.push("");
-			for (const item of sortItems(groups.footnote, "line-asc")) {
-				lines.push(`- ${item.text} *(line ${item.line + 1})*`);
+		// Enter adds the annotation, Shift+Enter a new line
+		input.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.key === "Enter" && !e.shiftKey && !e.isComposing) {
+				e.preventDefault();
+				submit();
 			}
-			lines.push("");
-		}
+		});
+		new Setting(this.contentEl).addButton((button) =>
+			button.setButtonText("Add").setCta().onClick(submit)
+		);
+		input.focus();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
 
-		lines.push("---");
-		lines.push(`*Source: ${sourceLink}*`);
+/** A color offered by "Highlight selection with color" */
+interface HighlightColor {
+	label: string;
+	color: string;
+}
 
-		const content = lines.join("\n");
+const HIGHLIGHT_PRESETS: HighlightColor[] = [
+	{ label: "Yellow", color: "yellow" },
+	{ label: "Green", color: "lightgreen" },
+	{ label: "Blue", color: "lightblue" },
+	{ label: "Red", color: "lightcoral" },
+	{ label: "Purple", color: "plum" },
+];
+
+/** Picks a highlight color: the named color categories, then presets */
+class HighlightColorModal extends FuzzySuggestModal<HighlightColor> {
+	private colors: HighlightColor[];
+	private onChoose: (color: HighlightColor) => void;
+
+	constructor(
+		app: App,
+		categories: ColorCategory[],
+		onChoose: (color: HighlightColor) => void
+	) {
+		super(app);
+		this.colors = [
+			...categories
+				.filter((category) => category.color)
+				.map((category) => ({
+					label: category.name || category.color,
+					color: category.color,
+				})),
+			...HIGHLIGHT_PRESETS,
+		];
+		this.onChoose = onChoose;
+		this.setPlaceholder("Highlight color…");
+	}
 
-		// Determine export file path (same folder as source, with " - Annotations" suffix)
-		const sourceFile = vault.getAbstractFileByPath(notePath);
-		let exportPath: string;
-		if (sourceFile instanceof TFile) {
-			const folder = sourceFile.parent?.path || "";
-			const baseName = `${displayName} - Annotations`;
-			exportPath = folder ? `${folder}/${baseName}.md` : `${baseName}.md`;
-		} else {
-			exportPath = `${displayName} - Annotations.md`;
-		}
+	getItems(): HighlightColor[] {
+		return this.colors;
+	}
 
-		// Check if file exists and handle conflict
-		const existingFile = vault.getAbstractFileByPath(exportPath);
-		if (existingFile instanceof TFile) {
-			// Overwrite existing file
-			await vault.modify(existingFile, content);
-		} else {
-			// Create new file
-			await vault.create(exportPath, content);
-		}
+	getItemText(item: HighlightColor): string {
+		return item.label === item.color
+			? item.label
+			: `${item.label} (${item.color})`;
+	}
+
+	renderSuggestion(match: FuzzyMatch<HighlightColor>, el: HTMLElement): void {
+		el.addClass("highlights-sidebar-color-suggestion");
+		const { color } = match.item;
+		createSwatch(
+			el,
+			CSS.supports("color", color) ? { color } : { colorClass: color }
+		);
+		super.renderSuggestion(match, el.createSpan());
+	}
+
+	onChooseItem(item: HighlightColor): void {
+		this.onChoose(item);
+	}
+}
+
+/** Asks for the first and last day ("YYYY-MM-DD") of a digest */
+class DigestRangeModal extends Modal {
+	private from: string;
+	private to: string;
+	private onSubmit: (range: DigestRange) => void;
+
+	constructor(
+		app: App,
+		from: string,
+		onSubmit: (range: DigestRange) => void
+	) {
+		super(app);
+		this.from = from;
+		this.to = moment().format("YYYY-MM-DD");
+		this.onSubmit = onSubmit;
+	}
 
-		// Open the exported file
-		const exportedFile = vault.getAbstractFileByPath(exportPath);
-		if (exportedFile instanceof TFile) {
-			await this.app.workspace.getLeaf("tab").openFile(exportedFile);
+	onOpen(): void {
+		this.titleEl.setText("Highlights digest");
+		new Setting(this.contentEl).setName("From").addText((text) => {
+			text.inputEl.type = "date";
+			text.setValue(this.from).onChange((value) => (this.from = value));
+		});
+		new Setting(this.contentEl).setName("To").addText((text) => {
+			text.inputEl.type = "date";
+			text.setValue(this.to).onChange((value) => (this.to = value));
+		});
+		new Setting(this.contentEl).addButton((button) =>
+			button
+				.setButtonText("Create")
+				.setCta()
+				.onClick(() => this.submit())
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		const from = moment(this.from, "YYYY-MM-DD", true);
+		const to = moment(this.to, "YYYY-MM-DD", true);
+		if (!from.isValid() || !to.isValid() || from.isAfter(to)) {
+			new Notice("Choose a first day on or before the last day");
+			return;
 		}
+		this.close();
+		this.onSubmit({
+			from: from.startOf("day").valueOf(),
+			to: to.endOf("day").valueOf(),
+		});
 	}
 }
 
@@ -789,6 +6135,13 @@ class HighlightsSidebarView extends ItemView {
 class HighlightsSidebarSettingTab extends PluginSettingTab {
 	plugin: HighlightsSidebarPlugin;
 
+	// Patterns are edited keystroke by keystroke; rescan the vault once typing stops
+	private debouncedRescan = debounce(
+		() => this.plugin.refreshView(true),
+		500,
+		true
+	);
+
 	constructor(app: App, plugin: HighlightsSidebarPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
@@ -829,14 +6182,142 @@ class HighlightsSidebarSettingTab extends PluginSettingTab {
 					const newSort = value as SortOrder;
 					this.plugin.settings.defaultSort = newSort;
 					// Also reset all per-section sorts to the new default
-					this.plugin.settings.sectionSorts.highlight = newSort;
-					this.plugin.settings.sectionSorts.comment = newSort;
-					this.plugin.settings.sectionSorts.footnote = newSort;
+					for (const sec of getSectionMeta(this.plugin.settings)) {
+						this.plugin.settings.sectionSorts[sec.type] = newSort;
+					}
+					await this.plugin.saveSettings();
+					this.plugin.refreshView();
+				});
+			});
+
+		// ── View mode ──────────────────────────────────────────────────────
+		new Setting(containerEl)
+			.setName("View mode")
+			.setDesc(
+				"Show annotations from the active note only, or from every note in the vault."
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption("note", "Active note");
+				dropdown.addOption("vault", "All notes");
+				dropdown.setValue(this.plugin.settings.viewMode);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.viewMode = value as ViewMode;
+					await this.plugin.saveSettings();
+					this.plugin.refreshView();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Group by")
+			.setDesc("Group the active note's items by annotation type, by highlight color, or under the headings they appear in.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("type", "Type");
+				dropdown.addOption("color", "Color");
+				dropdown.addOption("heading", "Heading");
+				dropdown.setValue(this.plugin.settings.groupBy);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.groupBy = value as GroupBy;
+					await this.plugin.saveSettings();
+					this.plugin.refreshView();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Follow cursor")
+			.setDesc(
+				"Mark the annotation at or nearest the editor cursor, keep it scrolled into view and show the heading the cursor is under."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.followCursor)
+					.onChange(async (value) => {
+						this.plugin.settings.followCursor = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshView();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Surrounding context")
+			.setDesc(
+				"Show the text around each annotation in the active note, from the same paragraph."
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption("off", "Off");
+				dropdown.addOption("characters", "Characters");
+				dropdown.addOption("sentences", "Sentences");
+				dropdown.setValue(this.plugin.settings.contextMode);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.contextMode = value as ContextMode;
 					await this.plugin.saveSettings();
 					this.plugin.refreshView();
+					this.display();
 				});
 			});
 
+		if (this.plugin.settings.contextMode === "characters") {
+			new Setting(containerEl)
+				.setName("Context length")
+				.setDesc("Characters shown on each side of an annotation.")
+				.addSlider((slider) =>
+					slider
+						.setLimits(10, 200, 10)
+						.setValue(this.plugin.settings.contextChars)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.contextChars = value;
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+						})
+				);
+		} else if (this.plugin.settings.contextMode === "sentences") {
+			new Setting(containerEl)
+				.setName("Context sentences")
+				.setDesc(
+					"1 shows the sentence holding the annotation; each step adds a sentence on either side."
+				)
+				.addSlider((slider) =>
+					slider
+						.setLimits(1, 5, 1)
+						.setValue(this.plugin.settings.contextSentences)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.contextSentences = value;
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Hover preview")
+			.setDesc(
+				"Show the paragraph holding an annotation, rendered, when hovering over its row."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.hoverPreview)
+					.onChange(async (value) => {
+						this.plugin.settings.hoverPreview = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Render Markdown")
+			.setDesc(
+				"Render annotation text as Markdown, so bold, math, tags and links display formatted. Links open their target (Ctrl/Cmd-hover previews them); clicking elsewhere on a row still jumps to the annotation."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.renderMarkdown)
+					.onChange(async (value) => {
+						this.plugin.settings.renderMarkdown = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshView();
+					})
+			);
+
 		// ── Section visibility ──────────────────────────────────────────────
 		containerEl.createEl("h3", { text: "Section visibility" });
 		containerEl.createEl("p", {
@@ -853,35 +6334,496 @@ class HighlightsSidebarSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.showHighlights = value;
 						await this.plugin.saveSettings();
-						this.plugin.refreshView();
+						this.plugin.refreshView();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Show Comments")
+			.setDesc("Show %%comments%% and <!-- HTML comments -->.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showComments)
+					.onChange(async (value) => {
+						this.plugin.settings.showComments = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshView();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Show Footnotes")
+			.setDesc("Show [^footnote]: definitions and ^[inline footnotes].")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showFootnotes)
+					.onChange(async (value) => {
+						this.plugin.settings.showFootnotes = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshView();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Show Suggestions")
+			.setDesc(
+				"Show CriticMarkup {++additions++}, {--deletions--}, {~~substitutions~>…~~}, {==highlights==} and {>>comments<<}."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showSuggestions)
+					.onChange(async (value) => {
+						this.plugin.settings.showSuggestions = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshView();
+					})
+			);
+
+		// ── Creating annotations ────────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Creating annotations" });
+
+		new Setting(containerEl)
+			.setName("Highlight syntax")
+			.setDesc(
+				"Markup written by \"Highlight selection\". Colored highlights and highlights spanning several lines always use <mark>."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("equals", "==text==")
+					.addOption("mark", "<mark>text</mark>")
+					.setValue(this.plugin.settings.highlightSyntax)
+					.onChange(async (value) => {
+						this.plugin.settings.highlightSyntax =
+							value as HighlightSyntax;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Comment author")
+			.setDesc(
+				"Your name for review threads. When set, \"Add comment to selection\" starts a thread: %%[c1 @name 2026-01-31 14:05] text%%. Replies always get a header."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Name")
+					.setValue(this.plugin.settings.commentAuthor)
+					.onChange(async (value) => {
+						this.plugin.settings.commentAuthor = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Hide resolved threads")
+			.setDesc(
+				"Leave resolved review threads out of the sidebar. Also available from the Comments section's right-click menu."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.hideResolved)
+					.onChange(async (value) => {
+						this.plugin.settings.hideResolved = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshView();
+					})
+			);
+
+		// ── Review ──────────────────────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Review" });
+
+		new Setting(containerEl)
+			.setName("New highlights per session")
+			.setDesc(
+				"Highlights never reviewed before that \"Review highlights\" adds after the ones that are due."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 100, 5)
+					.setValue(this.plugin.settings.reviewNewLimit)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.reviewNewLimit = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Add block IDs to reviewed highlights")
+			.setDesc(
+				"The first time you rate a highlight, add a ^block-id to the end of its paragraph in the note. The schedule then survives edits to the highlight's text; without an ID, editing the text starts the highlight over."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.reviewBlockIds)
+					.onChange(async (value) => {
+						this.plugin.settings.reviewBlockIds = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// ── Digest ──────────────────────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Digest" });
+
+		new Setting(containerEl)
+			.setName("Digest folder")
+			.setDesc(
+				"Where \"Create highlights digest\" writes a note of the highlights added since the last digest. Leave empty for the vault root."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Highlights digests")
+					.setValue(this.plugin.settings.digestFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.digestFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Create a digest every day")
+			.setDesc(
+				"Create the digest when Obsidian first starts each day, if there are new highlights."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.digestAuto)
+					.onChange(async (value) => {
+						this.plugin.settings.digestAuto = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// ── Color categories ────────────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Color categories" });
+		containerEl.createEl("p", {
+			text: "Name the colors you highlight with. A color is a CSS value from <mark style=\"background: …\"> (e.g. yellow or #ff6b6b) or a <mark class=\"…\"> class name. Category names are shown in the sidebar and in exports.",
+			cls: "setting-item-description",
+		});
+
+		const categories = this.plugin.settings.colorCategories;
+		categories.forEach((category, index) => {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Color")
+						.setValue(category.color)
+						.onChange(async (value) => {
+							category.color = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Category name")
+						.setValue(category.name)
+						.onChange(async (value) => {
+							category.name = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove category")
+						.onClick(async () => {
+							categories.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add category").onClick(async () => {
+				categories.push({ color: "", name: "" });
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+
+		// ── Saved searches ──────────────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Saved searches" });
+		containerEl.createEl("p", {
+			text: `Queries listed under the bookmark button of the search bar. ${SEARCH_HELP}`,
+			cls: "setting-item-description",
+		});
+
+		const searches = this.plugin.settings.savedSearches;
+		searches.forEach((search, index) => {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Name")
+						.setValue(search.name)
+						.onChange(async (value) => {
+							search.name = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("Query")
+						.setValue(search.query)
+						.onChange(async (value) => {
+							search.query = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove search")
+						.onClick(async () => {
+							searches.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add search").onClick(async () => {
+				searches.push({ name: "", query: "" });
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+
+		// ── Export ──────────────────────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Export" });
+
+		const exportOptions = this.plugin.settings.exportOptions;
+		new Setting(containerEl)
+			.setName("Format")
+			.setDesc("File format written by the export button.")
+			.addDropdown((dropdown) => {
+				const formats = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+				for (const format of formats) {
+					dropdown.addOption(format, EXPORT_FORMAT_LABELS[format]);
+				}
+				dropdown.setValue(exportOptions.format);
+				dropdown.onChange(async (value) => {
+					exportOptions.format = value as ExportFormat;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Output folder")
+			.setDesc(
+				"Vault folder for exports. Leave empty to export next to the source note."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Annotations")
+					.setValue(exportOptions.folder)
+					.onChange(async (value) => {
+						exportOptions.folder = value.trim();
+						await this.plugin.saveSettings();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Show Comments")
-			.setDesc("Show %%comments%% and <!-- HTML comments -->.")
-			.addToggle((toggle) =>
-				toggle
-					.setValue(this.plugin.settings.showComments)
+			.setName("File name")
+			.setDesc(
+				"Without extension. Placeholders: {{note}}, {{date}} or {{date:FORMAT}}."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.exportOptions.filename)
+					.setValue(exportOptions.filename)
 					.onChange(async (value) => {
-						this.plugin.settings.showComments = value;
+						exportOptions.filename = value;
 						await this.plugin.saveSettings();
-						this.plugin.refreshView();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Show Footnotes")
-			.setDesc("Show [^footnote]: definitions.")
+			.setName("If the file exists")
+			.setDesc(
+				"Overwrite it, append the new export, create a numbered new file, or update only the generated section of a Markdown export so your own notes around it are kept."
+			)
+			.addDropdown((dropdown) => {
+				const conflicts = Object.keys(
+					EXPORT_CONFLICT_LABELS
+				) as ExportConflict[];
+				for (const conflict of conflicts) {
+					dropdown.addOption(conflict, EXPORT_CONFLICT_LABELS[conflict]);
+				}
+				dropdown.setValue(exportOptions.conflict);
+				dropdown.onChange(async (value) => {
+					exportOptions.conflict = value as ExportConflict;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Sections")
+			.setDesc(
+				"One section per annotation type, or one per heading of the note (labelled with the heading path, in document order)."
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption("type", "By type");
+				dropdown.addOption("heading", "By heading");
+				dropdown.setValue(exportOptions.groupBy);
+				dropdown.onChange(async (value) => {
+					exportOptions.groupBy = value as ExportGroupBy;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Link with block IDs")
+			.setDesc(
+				"Add a ^block-id to each annotation's paragraph in the source note (reusing existing ones) so {{link}} and {{location}} point at it as [[Note#^id]] and survive edits."
+			)
 			.addToggle((toggle) =>
-				toggle
-					.setValue(this.plugin.settings.showFootnotes)
-					.onChange(async (value) => {
-						this.plugin.settings.showFootnotes = value;
-						await this.plugin.saveSettings();
-						this.plugin.refreshView();
-					})
+				toggle.setValue(exportOptions.blockLinks).onChange(async (value) => {
+					exportOptions.blockLinks = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		containerEl.createEl("p", {
+			text: "Markdown templates. Placeholders: {{note}}, {{path}}, {{date}}, {{date:FORMAT}}, {{count}}; sections add {{section}}; items add {{text}}, {{markup}}, {{type}}, {{heading}}, {{line}}, {{lines}}, {{location}}, {{category}}, {{color}}, {{tags}}, {{details}} and {{link}}.",
+			cls: "setting-item-description",
+		});
+
+		const templates = this.plugin.settings.exportTemplates;
+		const templateFields: { key: keyof ExportTemplates; name: string }[] = [
+			{ key: "header", name: "Header" },
+			{ key: "section", name: "Section heading" },
+			{ key: "item", name: "Item" },
+			{ key: "footer", name: "Footer" },
+		];
+		for (const field of templateFields) {
+			new Setting(containerEl)
+				.setName(field.name)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.exportTemplates[field.key])
+						.setValue(templates[field.key])
+						.onChange(async (value) => {
+							templates[field.key] = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Reset templates").onClick(async () => {
+				Object.assign(templates, DEFAULT_SETTINGS.exportTemplates);
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+
+		// ── Custom annotation types ─────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Custom annotation types" });
+		containerEl.createEl("p", {
+			text: "Define extra markers to collect, each shown as its own section. The pattern is a regular expression matched per note (with the m flag, so ^ and $ match line boundaries); capture group 1, or the whole match, becomes the item text. Examples: ^\\s*TODO:\\s*(.*)$ or \\?\\?(.+?)\\?\\?",
+			cls: "setting-item-description",
+		});
+
+		const customTypes = this.plugin.settings.customTypes;
+		customTypes.forEach((custom, index) => {
+			const wrapper = containerEl.createDiv({
+				cls: "highlights-sidebar-custom-type",
+			});
+
+			new Setting(wrapper)
+				.setName("Name")
+				.addText((text) =>
+					text
+						.setPlaceholder("Questions")
+						.setValue(custom.name)
+						.onChange(async (value) => {
+							custom.name = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove type")
+						.onClick(async () => {
+							customTypes.splice(index, 1);
+							delete this.plugin.settings.sectionSorts[custom.id];
+							delete this.plugin.settings.sectionsCollapsed[custom.id];
+							await this.plugin.saveSettings();
+							this.plugin.refreshView(true);
+							this.display();
+						})
+				);
+
+			new Setting(wrapper)
+				.setName("Icon")
+				.setDesc("A Lucide icon name, e.g. help-circle or check-square.")
+				.addText((text) =>
+					text
+						.setPlaceholder("tag")
+						.setValue(custom.icon)
+						.onChange(async (value) => {
+							custom.icon = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.refreshView();
+						})
+				);
+
+			const patternSetting = new Setting(wrapper)
+				.setName("Pattern")
+				.addText((text) =>
+					text
+						.setPlaceholder("\\?\\?(.+?)\\?\\?")
+						.setValue(custom.pattern)
+						.onChange(async (value) => {
+							custom.pattern = value;
+							showPatternStatus();
+							await this.plugin.saveSettings();
+							this.debouncedRescan();
+						})
+				);
+			const showPatternStatus = () => {
+				const valid =
+					custom.pattern.length === 0 ||
+					compileCustomPattern(custom.pattern) !== null;
+				patternSetting.setDesc(
+					valid
+						? "Regular expression with a capture group."
+						: "Invalid regular expression."
+				);
+				patternSetting.descEl.toggleClass("mod-warning", !valid);
+			};
+			showPatternStatus();
+
+			new Setting(wrapper).setName("Color").addColorPicker((picker) =>
+				picker.setValue(custom.color).onChange(async (value) => {
+					custom.color = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshView();
+				})
 			);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add annotation type").onClick(async () => {
+				customTypes.push({
+					id: `custom:${Date.now().toString(36)}`,
+					name: "",
+					icon: "tag",
+					pattern: "",
+					color: "#8a8a8a",
+					visible: true,
+				});
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
 	}
 }
 
@@ -891,13 +6833,41 @@ export default class HighlightsSidebarPlugin extends Plugin {
 	settings: HighlightsSidebarSettings = DEFAULT_SETTINGS;
 
 	private debouncedRefresh = debounce(
-		() => this.refreshView(),
+		() => this.updateViews(),
 		300,
 		true
 	);
+	/** Re-scans the edited paragraphs of notes changed in an editor */
+	private parser = new IncrementalParser();
+	/** Annotations of notes not open in an editor, kept across sessions */
+	index!: AnnotationIndex;
+	private digestSnapshot!: DigestSnapshot;
+	/** What each note's annotations were when last checked, by path */
+	private annotationSignatures = new Map<string, string>();
+	private debouncedCheck = debounce(
+		(file: TFile, editor: Editor) =>
+			this.checkAnnotations(
+				file,
+				this.parser.parse(
+					file.path,
+					editor.getValue(),
+					this.settings.customTypes
+				)
+			),
+		500,
+		true
+	);
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
+		this.index = new AnnotationIndex(
+			this.app,
+			normalizePath(`${this.manifest.dir}/annotation-index.json`)
+		);
+		this.digestSnapshot = new DigestSnapshot(
+			this.app,
+			normalizePath(`${this.manifest.dir}/digest-snapshot.json`)
+		);
 
 		// Register the custom view
 		this.registerView(VIEW_TYPE, (leaf) => {
@@ -907,6 +6877,20 @@ export default class HighlightsSidebarPlugin extends Plugin {
 		// Settings tab
 		this.addSettingTab(new HighlightsSidebarSettingTab(this.app, this));
 
+		// ```highlights code blocks listing annotations from across the vault
+		this.registerMarkdownCodeBlockProcessor(
+			"highlights",
+			(source, el, ctx) => {
+				ctx.addChild(new AnnotationQueryBlock(el, this, source));
+			}
+		);
+
+		// Page preview for links in rows rendered as Markdown
+		this.registerHoverLinkSource(VIEW_TYPE, {
+			display: "Highlights & Comments Sidebar",
+			defaultMod: true,
+		});
+
 		// Ribbon icon
 		this.addRibbonIcon(ICON_NAME, "Toggle Highlights Sidebar", () => {
 			this.toggleView();
@@ -919,6 +6903,173 @@ export default class HighlightsSidebarPlugin extends Plugin {
 			callback: () => this.toggleView(),
 		});
 
+		this.addCommand({
+			id: "highlight-selection",
+			name: "Highlight selection",
+			editorCallback: (editor, ctx) => this.highlightSelection(editor, ctx),
+		});
+
+		this.addCommand({
+			id: "highlight-selection-with-color",
+			name: "Highlight selection with color…",
+			editorCallback: (editor, ctx) =>
+				this.chooseHighlightColor(editor, ctx),
+		});
+
+		this.addCommand({
+			id: "comment-selection",
+			name: "Add comment to selection",
+			editorCallback: (editor, ctx) => this.commentSelection(editor, ctx),
+		});
+
+		this.addCommand({
+			id: "add-footnote",
+			name: "Add footnote",
+			editorCallback: (editor, ctx) => this.addFootnote(editor, ctx),
+		});
+
+		this.addCommand({
+			id: "remove-highlighting",
+			name: "Remove highlighting from selection",
+			editorCallback: (editor, ctx) =>
+				this.removeHighlighting(editor, ctx),
+		});
+
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor, ctx) => {
+				if (editor.somethingSelected()) {
+					menu.addItem((item) =>
+						item
+							.setTitle("Highlight")
+							.setIcon("highlighter")
+							.onClick(() => this.highlightSelection(editor, ctx))
+					);
+					menu.addItem((item) =>
+						item
+							.setTitle("Highlight with color…")
+							.setIcon("palette")
+							.onClick(() => this.chooseHighlightColor(editor, ctx))
+					);
+					menu.addItem((item) =>
+						item
+							.setTitle("Add comment")
+							.setIcon("message-square")
+							.onClick(() => this.commentSelection(editor, ctx))
+					);
+				}
+				menu.addItem((item) =>
+					item
+						.setTitle("Add footnote")
+						.setIcon("footnote")
+						.onClick(() => this.addFootnote(editor, ctx))
+				);
+				if (this.getSelectedHighlights(editor).length > 0) {
+					menu.addItem((item) =>
+						item
+							.setTitle("Remove highlighting")
+							.setIcon("eraser")
+							.onClick(() => this.removeHighlighting(editor, ctx))
+					);
+				}
+			})
+		);
+
+		this.addCommand({
+			id: "toggle-vault-mode",
+			name: "Toggle between active note and all notes",
+			callback: async () => {
+				this.settings.viewMode =
+					this.settings.viewMode === "vault" ? "note" : "vault";
+				await this.saveSettings();
+				await this.activateView();
+				this.refreshView();
+			},
+		});
+
+		this.addCommand({
+			id: "toggle-follow-cursor",
+			name: "Toggle following the cursor in the sidebar",
+			callback: async () => {
+				this.settings.followCursor = !this.settings.followCursor;
+				await this.saveSettings();
+				this.refreshView();
+			},
+		});
+
+		this.addCommand({
+			id: "rebuild-annotation-index",
+			name: "Rebuild the annotation index",
+			callback: async () => {
+				new Notice("Rebuilding the annotation index…");
+				try {
+					const { notes, items } = await this.index.rebuild(
+						this.settings.customTypes
+					);
+					new Notice(`Indexed ${items} annotations in ${notes} notes`);
+				} catch (e) {
+					new Notice(
+						`Couldn't rebuild the annotation index: ${
+							e instanceof Error ? e.message : String(e)
+						}`
+					);
+				}
+				this.refreshView(true);
+			},
+		});
+
+		this.addCommand({
+			id: "check-annotation-index",
+			name: "Check the annotation index",
+			callback: async () => {
+				new Notice("Checking the annotation index…");
+				let result: IndexCheck;
+				try {
+					result = await this.index.check(this.settings.customTypes);
+				} catch (e) {
+					new Notice(
+						`Couldn't check the annotation index: ${
+							e instanceof Error ? e.message : String(e)
+						}`
+					);
+					return;
+				}
+				const { notes, stale, removed, corrupt } = result;
+				if (stale + removed + corrupt === 0) {
+					new Notice(`Annotation index is up to date (${notes} notes)`);
+					return;
+				}
+				new Notice(
+					`Annotation index fixed: ${stale} outdated, ` +
+						`${removed} deleted and ${corrupt} damaged entries ` +
+						`(${notes} notes)`
+				);
+				this.refreshView(true);
+			},
+		});
+
+		this.addCommand({
+			id: "create-highlights-digest",
+			name: "Create highlights digest",
+			callback: () => this.createDigest(),
+		});
+
+		this.addCommand({
+			id: "create-highlights-digest-for-dates",
+			name: "Create highlights digest for dates…",
+			callback: () =>
+				new DigestRangeModal(
+					this.app,
+					this.settings.digestLastRun || moment().format("YYYY-MM-DD"),
+					(range) => this.createDigest({ range })
+				).open(),
+		});
+
+		this.addCommand({
+			id: "review-highlights",
+			name: "Review highlights",
+			callback: () => this.startReview(),
+		});
+
 		this.addCommand({
 			id: "increase-sidebar-font-size",
 			name: "Increase sidebar font size",
@@ -945,6 +7096,15 @@ export default class HighlightsSidebarPlugin extends Plugin {
 			},
 		});
 
+		// Once-a-day digest, after the vault has loaded
+		this.app.workspace.onLayoutReady(() => {
+			const today = moment().format("YYYY-MM-DD");
+			const { digestAuto, digestLastRun } = this.settings;
+			if (digestAuto && digestLastRun !== today) {
+				this.createDigest({ auto: true });
+			}
+		});
+
 		// Auto-refresh when the active leaf changes
 		this.registerEvent(
 			this.app.workspace.on("active-leaf-change", () => {
@@ -954,14 +7114,85 @@ export default class HighlightsSidebarPlugin extends Plugin {
 
 		// Auto-refresh on editor changes (debounced)
 		this.registerEvent(
-			this.app.workspace.on("editor-change", () => {
+			this.app.workspace.on("editor-change", (editor, info) => {
 				this.debouncedRefresh();
+				if (info.file) this.debouncedCheck(info.file, editor);
+			})
+		);
+
+		// Keep track of annotations for `ANNOTATIONS_CHANGED_EVENT`
+		this.registerEvent(
+			this.app.workspace.on("file-open", async (file) => {
+				if (!file || this.annotationSignatures.has(file.path)) return;
+				try {
+					const items = await this.getAnnotations(file);
+					this.checkAnnotations(file, items, false);
+				} catch {
+					// A note that can't be read is checked when it changes
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("modify", async (file) => {
+				if (!(file instanceof TFile) || file.extension !== "md") return;
+				try {
+					const items = await this.index.get(
+						file,
+						this.settings.customTypes
+					);
+					this.checkAnnotations(file, items);
+				} catch {
+					// A note that can't be read is checked when it changes again
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.index.rename(oldPath, file.path);
+				this.digestSnapshot
+					.rename(oldPath, file.path)
+					.catch((e) => this.reportSaveError("the digest snapshot", e));
+				const cards = this.settings.reviewSchedule[oldPath];
+				if (cards) {
+					delete this.settings.reviewSchedule[oldPath];
+					this.settings.reviewSchedule[file.path] = cards;
+					this.saveSettings().catch((e) =>
+						this.reportSaveError("the review schedule", e)
+					);
+				}
+				const signature = this.annotationSignatures.get(oldPath);
+				if (signature === undefined) return;
+				this.annotationSignatures.delete(oldPath);
+				this.annotationSignatures.set(file.path, signature);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				if (!(file instanceof TFile)) return;
+				this.index.delete(file.path);
+				this.digestSnapshot
+					.delete(file.path)
+					.catch((e) => this.reportSaveError("the digest snapshot", e));
+				if (this.settings.reviewSchedule[file.path]) {
+					delete this.settings.reviewSchedule[file.path];
+					this.saveSettings().catch((e) =>
+						this.reportSaveError("the review schedule", e)
+					);
+				}
+				if (this.annotationSignatures.delete(file.path)) {
+					this.app.workspace.trigger(
+						ANNOTATIONS_CHANGED_EVENT,
+						file,
+						[]
+					);
+				}
 			})
 		);
 	}
 
 	async onunload(): Promise<void> {
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE);
+		await this.index.save();
 	}
 
 	// ── Settings ───────────────────────────────────────────────────────────
@@ -973,12 +7204,35 @@ export default class HighlightsSidebarPlugin extends Plugin {
 		this.settings.sectionsCollapsed = Object.assign(
 			{},
 			DEFAULT_SETTINGS.sectionsCollapsed,
-			data?.sectionsCollapsed
+			migrateTypeKeys(data?.sectionsCollapsed)
 		);
 		this.settings.sectionSorts = Object.assign(
 			{},
 			DEFAULT_SETTINGS.sectionSorts,
-			data?.sectionSorts
+			migrateTypeKeys(data?.sectionSorts)
+		);
+		this.settings.colorCategories = (data?.colorCategories ?? []).map(
+			(c: ColorCategory) => ({ ...c })
+		);
+		this.settings.savedSearches = (data?.savedSearches ?? []).map(
+			(search: SavedSearch) => ({ ...search })
+		);
+		this.settings.customTypes = (data?.customTypes ?? []).map(
+			(c: CustomType) => ({ ...c, id: migrateCustomTypeId(c.id) })
+		);
+		this.settings.reviewSchedule = Object.assign(
+			{},
+			data?.reviewSchedule
+		);
+		this.settings.exportOptions = Object.assign(
+			{},
+			DEFAULT_SETTINGS.exportOptions,
+			data?.exportOptions
+		);
+		this.settings.exportTemplates = Object.assign(
+			{},
+			DEFAULT_SETTINGS.exportTemplates,
+			data?.exportTemplates
 		);
 	}
 
@@ -986,8 +7240,416 @@ export default class HighlightsSidebarPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	// ── API ────────────────────────────────────────────────────────────────
+	// For other plugins and scripts, through
+	// `app.plugins.plugins["highlights-sidebar"]`; see the README.
+
+	/** The editor showing `file`, if it is open */
+	private getOpenEditor(file: TFile): Editor | undefined {
+		return this.app.workspace
+			.getLeavesOfType("markdown")
+			.map((leaf) => leaf.view)
+			.find(
+				(view): view is MarkdownView =>
+					view instanceof MarkdownView && view.file === file
+			)?.editor;
+	}
+
+	/** A note's text, read from its editor (unsaved edits included) if open */
+	async readNote(file: TFile): Promise<string> {
+		return (
+			this.getOpenEditor(file)?.getValue() ??
+			this.app.vault.cachedRead(file)
+		);
+	}
+
+	/**
+	 * The annotations of a note, sorted by `sort`. A note open in an editor
+	 * is read from the editor, so unsaved edits are included; others come
+	 * from the annotation index.
+	 */
+	async getAnnotations(
+		file: TFile,
+		sort: SortOrder = "line-asc"
+	): Promise<ParsedItem[]> {
+		const editor = this.getOpenEditor(file);
+		const { customTypes } = this.settings;
+		const items = editor
+			? parseContent(editor.getValue(), customTypes)
+			: await this.index.get(file, customTypes);
+		return sortItems(items, sort);
+	}
+
+	/**
+	 * The annotations matching `filter` in every markdown note, most
+	 * recently modified notes first. Notes with none are left out.
+	 */
+	async getVaultAnnotations(
+		filter: AnnotationFilter = {}
+	): Promise<NoteAnnotations[]> {
+		const query = parseSearchQuery(filter.query ?? "");
+		const files = this.app.vault
+			.getMarkdownFiles()
+			.filter((file) => isInFilterScope(this.app, file, filter))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+		const notes: NoteAnnotations[] = [];
+		for (const file of files) {
+			const items = (await this.getAnnotations(file, filter.sort)).filter(
+				(item) =>
+					(!filter.types || filter.types.includes(item.type)) &&
+					matchesSearchQuery(item, query, this.settings)
+			);
+			if (items.length > 0) notes.push({ file, items });
+		}
+		return notes;
+	}
+
+	/**
+	 * Export a note's annotations as the export button does. `options`
+	 * override the export settings for this call only.
+	 */
+	async export(
+		file: TFile,
+		options: Partial<ExportOptions> = {}
+	): Promise<ExportResult> {
+		return writeExport(
+			this.app,
+			this.settings,
+			{ displayName: file.basename, path: file.path },
+			await this.getAnnotations(file),
+			{ ...this.settings.exportOptions, ...options }
+		);
+	}
+
+	/**
+	 * Fire `ANNOTATIONS_CHANGED_EVENT` if a note's annotations differ from
+	 * when it was last checked (or it wasn't checked yet). Items that only
+	 * moved don't count, so typing elsewhere in the note stays quiet.
+	 */
+	private checkAnnotations(
+		file: TFile,
+		items: ParsedItem[],
+		notify = true
+	): void {
+		const signature = JSON.stringify(
+			items.map((item) => [item.type, item.source])
+		);
+		if (this.annotationSignatures.get(file.path) === signature) return;
+		this.annotationSignatures.set(file.path, signature);
+		if (notify) {
+			this.app.workspace.trigger(ANNOTATIONS_CHANGED_EVENT, file, items);
+		}
+	}
+
+	// ── Creating annotations ───────────────────────────────────────────────
+
+	/** The selection, or the word at the cursor when nothing is selected */
+	private getTarget(editor: Editor): EditorRange | null {
+		const from = editor.getCursor("from");
+		const to = editor.getCursor("to");
+		if (from.line !== to.line || from.ch !== to.ch) return { from, to };
+		return editor.wordAt(from);
+	}
+
+	private highlightSelection(
+		editor: Editor,
+		ctx: MarkdownView | MarkdownFileInfo,
+		color?: string
+	): void {
+		const target = this.getTarget(editor);
+		if (!target) {
+			new Notice("Select the text to highlight");
+			return;
+		}
+		const text = editor.getRange(target.from, target.to);
+		editor.replaceRange(
+			buildHighlight(text, this.settings.highlightSyntax, color),
+			target.from,
+			target.to
+		);
+		this.showNewItem(ctx, target.from);
+	}
+
+	private chooseHighlightColor(
+		editor: Editor,
+		ctx: MarkdownView | MarkdownFileInfo
+	): void {
+		new HighlightColorModal(
+			this.app,
+			this.settings.colorCategories,
+			({ color }) => this.highlightSelection(editor, ctx, color)
+		).open();
+	}
+
+	/**
+	 * Ask for a comment and add it right after the selection, starting a
+	 * review thread when a comment author is set.
+	 */
+	private commentSelection(
+		editor: Editor,
+		ctx: MarkdownView | MarkdownFileInfo
+	): void {
+		new AnnotationTextModal(this.app, "Add comment", (text) => {
+			// Read now: the note may have changed while the prompt was open
+			const at = editor.getCursor("to");
+			const { commentAuthor, customTypes } = this.settings;
+			const items = parseContent(editor.getValue(), customTypes);
+			const comment = commentAuthor
+				? buildReviewComment(text, nextCommentId(items), commentAuthor)
+				: buildComment(text);
+			editor.replaceRange(comment, at);
+			this.showNewItem(ctx, at);
+		}).open();
+	}
+
+	/**
+	 * Ask for a footnote, reference it with the next free number after the
+	 * selection and add its definition at the end of the note.
+	 */
+	private addFootnote(
+		editor: Editor,
+		ctx: MarkdownView | MarkdownFileInfo
+	): void {
+		new AnnotationTextModal(this.app, "Add footnote", (text) => {
+			// Read now: the note may have changed while the prompt was open
+			const at = editor.getCursor("to");
+			const items = parseContent(
+				editor.getValue(),
+				this.settings.customTypes
+			);
+			const n = nextFootnoteNumber(items);
+
+			// Join a footnote block that already ends the note
+			const last = editor.lastLine();
+			const lastText = editor.getLine(last);
+			const end = { line: last, ch: lastText.length };
+			const gap = /^\[\^[^\]]+\]:/.test(lastText)
+				? "\n"
+				: lastText.trim()
+					? "\n\n"
+					: "\n";
+			editor.transaction({
+				changes: [
+					{ from: at, text: `[^${n}]` },
+					{ from: end, text: `${gap}[^${n}]: ${text}` },
+				],
+			});
+			const definitionLine = last + gap.length;
+			this.showNewItem(ctx, { line: definitionLine, ch: 0 });
+		}).open();
+	}
+
+	/** Highlights overlapping the selection, or holding the cursor */
+	private getSelectedHighlights(editor: Editor): ParsedItem[] {
+		const from = editor.getCursor("from");
+		const to = editor.getCursor("to");
+		const before = (a: EditorPosition, b: EditorPosition) =>
+			a.line < b.line || (a.line === b.line && a.ch < b.ch);
+		return parseContent(editor.getValue(), this.settings.customTypes).filter(
+			(item) =>
+				item.type === "highlight" &&
+				!before({ line: item.endLine, ch: item.endCh }, from) &&
+				!before(to, { line: item.line, ch: item.ch })
+		);
+	}
+
+	/** Replace every highlight touching the selection with its plain text */
+	private removeHighlighting(
+		editor: Editor,
+		ctx: MarkdownView | MarkdownFileInfo
+	): void {
+		const highlights = this.getSelectedHighlights(editor);
+		if (highlights.length === 0) {
+			new Notice("No highlights in the selection");
+			return;
+		}
+		editor.transaction({
+			changes: highlights.map((item) => ({
+				from: { line: item.line, ch: item.ch },
+				to: { line: item.endLine, ch: item.endCh },
+				text: item.text,
+			})),
+		});
+		this.showNewItem(ctx, null);
+	}
+
+	/**
+	 * Refresh open sidebars right away (rather than after the usual delay)
+	 * and point out the item created at `position`, if any.
+	 */
+	private showNewItem(
+		ctx: MarkdownView | MarkdownFileInfo,
+		position: EditorPosition | null
+	): void {
+		const path = ctx.file?.path;
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE)) {
+			const view = leaf.view;
+			if (!(view instanceof HighlightsSidebarView)) continue;
+			if (position && path) view.showItemAt(path, position);
+			else view.refresh();
+		}
+	}
+
+	// ── Review ─────────────────────────────────────────────────────────────
+
+	private async startReview(): Promise<void> {
+		let entries: ReviewEntry[];
+		try {
+			entries = await this.getReviewSession();
+		} catch (e) {
+			new Notice(
+				`Couldn't start the review: ${
+					e instanceof Error ? e.message : String(e)
+				}`
+			);
+			return;
+		}
+		if (entries.length === 0) {
+			new Notice("No highlights are due for review");
+			return;
+		}
+		new ReviewModal(this, entries).open();
+	}
+
+	/**
+	 * Due highlights, most overdue first, then up to `reviewNewLimit` that
+	 * were never reviewed. Cards of highlights that are gone are kept, so
+	 * a highlight that is cut and pasted back keeps its schedule.
+	 */
+	private async getReviewSession(): Promise<ReviewEntry[]> {
+		const today = moment().format("YYYY-MM-DD");
+		const due: { entry: ReviewEntry; date: string }[] = [];
+		const fresh: ReviewEntry[] = [];
+
+		const notes = await this.getVaultAnnotations({ types: ["highlight"] });
+		for (const { file } of notes) {
+			const cards = this.settings.reviewSchedule[file.path] ?? {};
+			// Items and lines from the same text, unsaved edits included
+			const content = await this.readNote(file);
+			const items = parseContent(content, this.settings.customTypes).filter(
+				(item) => item.type === "highlight"
+			);
+			const lines = content.split("\n");
+			for (const [item, keys] of getReviewKeys(lines, items)) {
+				const { index } = keys;
+				// Cards rated before the block got its id are keyed by text
+				const key =
+					[keys.block, keys.text].find((k) => k && cards[k]) ??
+					keys.block ??
+					keys.text;
+				const card = cards[key];
+				if (!card) {
+					fresh.push({ file, item, key, index });
+				} else if (card.due <= today) {
+					due.push({
+						entry: { file, item, key, index },
+						date: card.due,
+					});
+				}
+			}
+		}
+
+		due.sort((a, b) => a.date.localeCompare(b.date));
+		return [
+			...due.map((d) => d.entry),
+			...fresh.slice(0, this.settings.reviewNewLimit),
+		];
+	}
+
+	/**
+	 * Schedule the next review of `entry` after a rating of `quality`. With
+	 * `reviewBlockIds` on, a card still keyed by text moves to a `^block-id`
+	 * added to its block. If saving fails the schedule is left as it was.
+	 */
+	async rateReview(entry: ReviewEntry, quality: number): Promise<void> {
+		let { key } = entry;
+		if (this.settings.reviewBlockIds && !key.startsWith("^")) {
+			const id = (
+				await ensureBlockIds(this.app, entry.file, [entry.item])
+			).get(entry.item);
+			if (id) key = blockReviewKey(id, entry.index);
+		}
+		const { reviewSchedule } = this.settings;
+		const cards = (reviewSchedule[entry.file.path] ??= {});
+		const card = cards[entry.key];
+		delete cards[entry.key];
+		cards[key] = scheduleReview(card, quality, moment().format("YYYY-MM-DD"));
+		try {
+			await this.saveSettings();
+		} catch (e) {
+			delete cards[key];
+			if (card) cards[entry.key] = card;
+			throw e;
+		}
+	}
+
+	// ── Digest ─────────────────────────────────────────────────────────────
+
+	/**
+	 * Write the highlights first seen within `range` to a digest note. By
+	 * default that is since the last digest, and once the note is written
+	 * the snapshot the next digest starts from is saved. Automatic digests
+	 * stay quiet when there is nothing new.
+	 */
+	private async createDigest(
+		options: { range?: DigestRange; auto?: boolean } = {}
+	): Promise<void> {
+		const { auto = false } = options;
+		try {
+			const range = options.range ?? {
+				// The first digest covers today
+				from:
+					(await this.digestSnapshot.getSince()) ||
+					moment().startOf("day").valueOf(),
+			};
+			const { notes, snapshot } = await this.digestSnapshot.collect(
+				range,
+				async (file) =>
+					(await this.getAnnotations(file)).filter(
+						(item) => item.type === "highlight"
+					),
+				// Digests quote highlights, which mustn't show up in the next one
+				(file) => isDigestNote(file, this.settings)
+			);
+			const file =
+				notes.length > 0
+					? await writeDigest(this.app, this.settings, notes, range)
+					: null;
+			// A digest for chosen dates leaves "since the last digest" as is
+			if (!options.range) {
+				await this.digestSnapshot.commit(snapshot);
+				this.settings.digestLastRun = moment().format("YYYY-MM-DD");
+				await this.saveSettings();
+			}
+
+			if (!file) {
+				if (!auto) {
+					new Notice(`No new highlights ${describeDigestRange(range)}`);
+				}
+			} else if (auto) {
+				new Notice(`New highlights were added to ${file.path}`);
+			} else {
+				await this.app.workspace.getLeaf().openFile(file);
+			}
+		} catch (e) {
+			new Notice(
+				`Couldn't create the digest: ${
+					e instanceof Error ? e.message : String(e)
+				}`
+			);
+		}
+	}
+
 	// ── Helpers ────────────────────────────────────────────────────────────
 
+	/** Show a write that failed in the background, such as after a rename */
+	private reportSaveError(what: string, e: unknown): void {
+		new Notice(
+			`Couldn't save ${what}: ${e instanceof Error ? e.message : String(e)}`
+		);
+	}
+
 	private async toggleView(): Promise<void> {
 		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE);
 
@@ -1016,13 +7678,31 @@ export default class HighlightsSidebarPlugin extends Plugin {
 		}
 	}
 
-	refreshView(): void {
+	/**
+	 * Re-render every open sidebar. Pass `rescanVault` when a setting that
+	 * affects parsing changed, so cached vault-wide results are rebuilt too.
+	 */
+	refreshView(rescanVault = false): void {
 		const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE);
 		for (const leaf of leaves) {
 			const view = leaf.view;
 			if (view instanceof HighlightsSidebarView) {
+				if (rescanVault) view.invalidateVault();
+				view.invalidateRows();
 				view.renderContent();
 			}
 		}
 	}
+
+	/**
+	 * Bring every open sidebar up to date after an edit or a leaf change,
+	 * patching the item list in place where possible.
+	 */
+	private updateViews(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE)) {
+			if (leaf.view instanceof HighlightsSidebarView) {
+				leaf.view.refresh();
+			}
+		}
+	}
 }
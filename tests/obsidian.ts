@@ -0,0 +1,57 @@
+/*
+ * Runtime stand-ins for the parts of the "obsidian" module that main.ts
+ * touches while loading. The tests only exercise pure functions, so the
+ * classes are empty and the helpers do the minimum.
+ */
+import * as momentLib from "moment";
+
+export class Component {}
+export class Events {}
+export class ItemView {}
+export class MarkdownRenderChild {}
+export class MarkdownView {}
+export class Menu {}
+export class Modal {}
+export class FuzzySuggestModal {}
+export class HoverPopover {}
+export class Notice {}
+export class Plugin {}
+export class PluginSettingTab {}
+export class Setting {}
+export class TFile {}
+export class TFolder {}
+export const Keymap = {};
+export const MarkdownRenderer = {};
+export const moment = momentLib;
+
+export function debounce<T extends unknown[]>(fn: (...args: T) => unknown) {
+	return fn;
+}
+
+export function normalizePath(path: string): string {
+	return path.replace(/\/+/g, "/").replace(/^\/|\/$/g, "") || "/";
+}
+
+export function getAllTags(): string[] {
+	return [];
+}
+
+/** Matches when the query's characters appear in order, like Obsidian's */
+export function prepareFuzzySearch(query: string) {
+	return (text: string) => {
+		const lower = text.toLowerCase();
+		const matches: [number, number][] = [];
+		let from = 0;
+		for (const char of query.toLowerCase()) {
+			const at = lower.indexOf(char, from);
+			if (at < 0) return null;
+			matches.push([at, at + 1]);
+			from = at + 1;
+		}
+		return { score: 0, matches };
+	};
+}
+
+export function renderMatches(): void {}
+
+export function setIcon(): void {}
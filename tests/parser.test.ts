@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { parseContent } from "../main";
+
+const texts = (content: string) =>
+	parseContent(content).map((item) => `${item.type}:${item.text}`);
+
+test("fenced code is skipped", () => {
+	const note = [
+		"==before==",
+		"```js",
+		"if (a == b == c) {}",
+		"const x = ==y==; // %%not a comment%%",
+		"```",
+		"~~~",
+		"==tilde fence==",
+		"~~~",
+		"==after==",
+	].join("\n");
+	assert.deepEqual(texts(note), ["highlight:before", "highlight:after"]);
+});
+
+test("an unclosed fence runs to the end of the note", () => {
+	assert.deepEqual(texts("==kept==\n```\n==inside=="), ["highlight:kept"]);
+});
+
+test("inline code is skipped", () => {
+	assert.deepEqual(texts("`a == b == c`"), []);
+	assert.deepEqual(texts("``==x== with ` inside`` and ==real=="), [
+		"highlight:real",
+	]);
+	assert.deepEqual(texts("`%%x%%` then %%comment%%"), ["comment:comment"]);
+});
+
+test("frontmatter is skipped", () => {
+	const note = [
+		"---",
+		"title: ==not a highlight==",
+		"note: %%nor a comment%%",
+		"---",
+		"==body==",
+	].join("\n");
+	assert.deepEqual(texts(note), ["highlight:body"]);
+	// Only a `---` on the first line opens frontmatter
+	assert.deepEqual(texts("text\n---\n==x==\n---"), ["highlight:x"]);
+});
+
+test("$$ math is skipped", () => {
+	assert.deepEqual(texts("$$a == b == c$$ and ==real=="), [
+		"highlight:real",
+	]);
+	const block = ["==before==", "$$", "x ==y== z", "$$", "==after=="];
+	assert.deepEqual(texts(block.join("\n")), [
+		"highlight:before",
+		"highlight:after",
+	]);
+});
+
+test("highlights on one line are kept apart", () => {
+	assert.deepEqual(texts("==a== and ==bc== or ==d e=="), [
+		"highlight:a",
+		"highlight:bc",
+		"highlight:d e",
+	]);
+	assert.deepEqual(texts("== spaced =="), []);
+});
+
+test("escaped delimiters are not annotations", () => {
+	assert.deepEqual(texts("\\==not a highlight\\=="), []);
+	assert.deepEqual(texts("\\%%literal\\%% and %%comment%%"), [
+		"comment:comment",
+	]);
+	assert.deepEqual(texts("\\==x== then ==real=="), ["highlight:real"]);
+});
+
+test("positions point into the original note", () => {
+	const [item] = parseContent("`code` ==real==\n");
+	assert.equal(item.line, 0);
+	assert.equal(item.ch, 7);
+	assert.equal(item.source, "==real==");
+});
+
+test("only the exact export markers are hidden", () => {
+	const note = [
+		"%% highlights-sidebar:start — generated on export, edits between these markers are replaced %%",
+		"- ==exported==",
+		'%% highlights-sidebar:end [{"type":"highlight","text":"exported"}] %%',
+		"%%highlights-sidebar: my own note%%",
+	].join("\n");
+	assert.deepEqual(texts(note), [
+		"highlight:exported",
+		"comment:highlights-sidebar: my own note",
+	]);
+});
+
+test("only comments with a comment id get a review header", () => {
+	for (const plain of ["[note @x] hi", "[word resolved] hi", "[c3] hi"]) {
+		const [item] = parseContent(`%%${plain}%%`);
+		assert.equal(item.thread, undefined, plain);
+		assert.equal(item.text, plain);
+	}
+	const [item] = parseContent("%%[c2 @bob re:c1 resolved] hi%%");
+	assert.equal(item.text, "hi");
+	assert.equal(item.thread?.id, "c2");
+	assert.equal(item.thread?.author, "bob");
+	assert.equal(item.thread?.replyTo, "c1");
+	assert.equal(item.thread?.resolved, true);
+});
+
+test("tags after an annotation are read around code", () => {
+	assert.deepEqual(parseContent("==a== #one #two")[0].tags, ["#one", "#two"]);
+	assert.equal(parseContent("==a== `#code`")[0].tags, undefined);
+	assert.deepEqual(parseContent("==a== #one`code`")[0].tags, ["#one"]);
+});
@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+	DEFAULT_SETTINGS,
+	matchesSearchQuery,
+	parseContent,
+	parseSearchQuery,
+} from "../main";
+
+const search = (content: string, query: string) =>
+	parseContent(content)
+		.filter((item) =>
+			matchesSearchQuery(item, parseSearchQuery(query), DEFAULT_SETTINGS)
+		)
+		.map((item) => item.text);
+
+const note = "==first draft== ==dark raft== ==final==";
+
+test("words match fuzzily", () => {
+	assert.deepEqual(search(note, "drft"), ["first draft", "dark raft"]);
+});
+
+test("exclusions only drop literal matches", () => {
+	assert.deepEqual(search(note, "-draft"), ["dark raft", "final"]);
+});